@@ -0,0 +1,94 @@
+/**
+ * Feed Bulk Operations
+ * Tracks the bulk operation fetching a large shop's products, so the
+ * bulk_operations/finish webhook can pick up where generation left off
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+
+export type BulkOperationStatus = "running" | "completed" | "failed";
+
+export interface FeedBulkOperation {
+  operationId: string;
+  status: BulkOperationStatus;
+  error: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+// Bulk operations still running after this long are assumed lost
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the latest bulk operation started for a shop
+ */
+export async function getBulkOperation(
+  db: D1Database,
+  shop: string,
+): Promise<FeedBulkOperation | null> {
+  const row = await db
+    .prepare(
+      "SELECT operation_id, status, error, started_at, finished_at FROM feed_bulk_operations WHERE shop = ?",
+    )
+    .bind(shop)
+    .first();
+
+  if (!row) return null;
+
+  return {
+    operationId: row.operation_id as string,
+    status: row.status as BulkOperationStatus,
+    error: row.error as string | null,
+    startedAt: row.started_at as number,
+    finishedAt: row.finished_at as number | null,
+  };
+}
+
+/**
+ * Whether a bulk operation is still expected to finish
+ */
+export function isBulkOperationRunning(
+  operation: FeedBulkOperation | null,
+  now: number,
+): boolean {
+  return (
+    operation?.status === "running" &&
+    now - operation.startedAt < STALE_AFTER_MS
+  );
+}
+
+/**
+ * Record a newly started bulk operation, replacing the previous one
+ */
+export async function saveBulkOperation(
+  db: D1Database,
+  shop: string,
+  operationId: string,
+  startedAt: number,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR REPLACE INTO feed_bulk_operations (shop, operation_id, status, error, started_at, finished_at)
+       VALUES (?, ?, 'running', NULL, ?, NULL)`,
+    )
+    .bind(shop, operationId, startedAt)
+    .run();
+}
+
+/**
+ * Mark a shop's bulk operation as completed or failed
+ */
+export async function finishBulkOperation(
+  db: D1Database,
+  shop: string,
+  operationId: string,
+  status: Exclude<BulkOperationStatus, "running">,
+  error: string | null = null,
+): Promise<void> {
+  await db
+    .prepare(
+      "UPDATE feed_bulk_operations SET status = ?, error = ?, finished_at = ? WHERE shop = ? AND operation_id = ?",
+    )
+    .bind(status, error, Date.now(), shop, operationId)
+    .run();
+}
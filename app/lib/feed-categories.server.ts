@@ -0,0 +1,92 @@
+/**
+ * Category Mappings
+ * Maps merchant product types onto Shopify Standard Product Taxonomy categories
+ * for products that have no Shopify category set
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+
+export interface CategoryMapping {
+  id: number;
+  shop: string;
+  product_type: string;
+  category: string;
+}
+
+/**
+ * Normalize a taxonomy path to the "Parent > Child > Leaf" format
+ */
+export function formatCategoryPath(path: string): string {
+  return path
+    .split(">")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(" > ");
+}
+
+/**
+ * Build a lookup of lowercase product type → category path
+ */
+export function buildCategoryLookup(
+  mappings: CategoryMapping[],
+): Record<string, string> {
+  const lookup: Record<string, string> = {};
+  for (const mapping of mappings) {
+    lookup[mapping.product_type.toLowerCase()] = mapping.category;
+  }
+  return lookup;
+}
+
+/**
+ * Get all category mappings for a shop
+ */
+export async function getCategoryMappings(
+  db: D1Database,
+  shop: string,
+): Promise<CategoryMapping[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT id, shop, product_type, category FROM feed_category_mappings WHERE shop = ? ORDER BY product_type",
+    )
+    .bind(shop)
+    .all();
+
+  return results.map((row) => ({
+    id: row.id as number,
+    shop: row.shop as string,
+    product_type: row.product_type as string,
+    category: row.category as string,
+  }));
+}
+
+/**
+ * Add or replace the category for a product type
+ */
+export async function saveCategoryMapping(
+  db: D1Database,
+  shop: string,
+  productType: string,
+  category: string,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR REPLACE INTO feed_category_mappings (shop, product_type, category)
+       VALUES (?, ?, ?)`,
+    )
+    .bind(shop, productType, formatCategoryPath(category))
+    .run();
+}
+
+/**
+ * Delete a category mapping
+ */
+export async function deleteCategoryMapping(
+  db: D1Database,
+  shop: string,
+  id: number,
+): Promise<void> {
+  await db
+    .prepare("DELETE FROM feed_category_mappings WHERE id = ? AND shop = ?")
+    .bind(id, shop)
+    .run();
+}
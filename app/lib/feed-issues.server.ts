@@ -0,0 +1,201 @@
+/**
+ * Feed Issues
+ * Per-item spec errors and warnings found while generating a shop's feed
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+
+export type FeedIssueSeverity = "error" | "warning";
+
+export interface FeedIssue {
+  item_id: string;
+  product_id: string;
+  variant_id: string;
+  title: string;
+  severity: FeedIssueSeverity;
+  field: string;
+  code: string;
+  message: string;
+}
+
+// Max statements per D1 batch when storing issues
+const BATCH_SIZE = 100;
+
+/**
+ * Insert issues found during a generation
+ */
+async function insertFeedIssues(
+  db: D1Database,
+  shop: string,
+  issues: FeedIssue[],
+): Promise<void> {
+  const now = Date.now();
+  for (let i = 0; i < issues.length; i += BATCH_SIZE) {
+    await db.batch(
+      issues.slice(i, i + BATCH_SIZE).map((issue) =>
+        db
+          .prepare(
+            `INSERT INTO feed_issues (shop, item_id, product_id, variant_id, title, severity, field, code, message, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .bind(
+            shop,
+            issue.item_id,
+            issue.product_id,
+            issue.variant_id,
+            issue.title,
+            issue.severity,
+            issue.field,
+            issue.code,
+            issue.message,
+            now,
+          ),
+      ),
+    );
+  }
+}
+
+/**
+ * Replace the stored issues for a shop with those from the latest generation
+ */
+export async function saveFeedIssues(
+  db: D1Database,
+  shop: string,
+  issues: FeedIssue[],
+): Promise<void> {
+  await db.prepare("DELETE FROM feed_issues WHERE shop = ?").bind(shop).run();
+  await insertFeedIssues(db, shop, issues);
+}
+
+/**
+ * Replace the stored issues of some products, after an incremental generation
+ */
+export async function patchFeedIssues(
+  db: D1Database,
+  shop: string,
+  productIds: string[],
+  issues: FeedIssue[],
+): Promise<void> {
+  for (let i = 0; i < productIds.length; i += BATCH_SIZE) {
+    await db.batch(
+      productIds
+        .slice(i, i + BATCH_SIZE)
+        .map((productId) =>
+          db
+            .prepare(
+              "DELETE FROM feed_issues WHERE shop = ? AND product_id = ?",
+            )
+            .bind(shop, productId),
+        ),
+    );
+  }
+  await insertFeedIssues(db, shop, issues);
+}
+
+/**
+ * Filters for listing a shop's issues
+ */
+export interface FeedIssueFilter {
+  severity?: FeedIssueSeverity;
+  field?: string;
+  code?: string;
+}
+
+/**
+ * Issue counts for one problem type
+ */
+export interface FeedIssueGroup {
+  severity: FeedIssueSeverity;
+  field: string;
+  code: string;
+  count: number;
+}
+
+export interface FeedIssueSummary {
+  errors: number;
+  warnings: number;
+  // Items left out of the feed because of an error
+  blockedItems: number;
+  groups: FeedIssueGroup[];
+}
+
+/**
+ * Get the issues from the latest generation for a shop
+ * Errors are listed before warnings
+ */
+export async function getFeedIssues(
+  db: D1Database,
+  shop: string,
+  filter: FeedIssueFilter = {},
+  limit = 50,
+): Promise<FeedIssue[]> {
+  const conditions = ["shop = ?"];
+  const values: unknown[] = [shop];
+  if (filter.severity) {
+    conditions.push("severity = ?");
+    values.push(filter.severity);
+  }
+  if (filter.field) {
+    conditions.push("field = ?");
+    values.push(filter.field);
+  }
+  if (filter.code) {
+    conditions.push("code = ?");
+    values.push(filter.code);
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT item_id, product_id, variant_id, title, severity, field, code, message
+       FROM feed_issues WHERE ${conditions.join(" AND ")} ORDER BY severity, title LIMIT ?`,
+    )
+    .bind(...values, limit)
+    .all();
+
+  return results as unknown as FeedIssue[];
+}
+
+/**
+ * Summarize the issues from the latest generation for a shop
+ */
+export async function getFeedIssueSummary(
+  db: D1Database,
+  shop: string,
+): Promise<FeedIssueSummary> {
+  const [groups, blocked] = await Promise.all([
+    db
+      .prepare(
+        `SELECT severity, field, code, COUNT(*) AS count FROM feed_issues
+         WHERE shop = ? GROUP BY severity, field, code ORDER BY severity, count DESC`,
+      )
+      .bind(shop)
+      .all(),
+    db
+      .prepare(
+        // Duplicate item IDs are among the errors, so count variants instead
+        "SELECT COUNT(*) AS count FROM (SELECT DISTINCT product_id, variant_id FROM feed_issues WHERE shop = ? AND severity = 'error')",
+      )
+      .bind(shop)
+      .first(),
+  ]);
+
+  const summary: FeedIssueSummary = {
+    errors: 0,
+    warnings: 0,
+    blockedItems: (blocked?.count as number) || 0,
+    groups: [],
+  };
+  for (const row of groups.results) {
+    const group: FeedIssueGroup = {
+      severity: row.severity as FeedIssueSeverity,
+      field: row.field as string,
+      code: row.code as string,
+      count: row.count as number,
+    };
+    if (group.severity === "error") summary.errors += group.count;
+    else summary.warnings += group.count;
+    summary.groups.push(group);
+  }
+
+  return summary;
+}
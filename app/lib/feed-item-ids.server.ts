@@ -0,0 +1,131 @@
+/**
+ * Item IDs
+ * Builds feed item IDs with the shop's chosen strategy and keeps them stable
+ * in D1, so editing a SKU or barcode doesn't reset an item's ChatGPT history
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { ShopifyVariant } from "./shopify-products.server";
+
+export type ItemIdStrategy =
+  | "sku"
+  | "variant_id"
+  | "product_variant_id"
+  | "barcode";
+
+export const ITEM_ID_STRATEGIES: Record<ItemIdStrategy, string> = {
+  sku: "SKU",
+  variant_id: "Variant ID",
+  product_variant_id: "Product ID + variant ID",
+  barcode: "Barcode",
+};
+
+// Max statements per D1 batch when storing IDs
+const BATCH_SIZE = 100;
+
+/**
+ * Build a new item ID for a variant
+ * Variants without a SKU or barcode fall back to product+variant ID
+ */
+export function buildItemId(
+  variant: ShopifyVariant,
+  productId: string,
+  variantId: string,
+  strategy: ItemIdStrategy,
+): string {
+  const fallback = `${productId}-${variantId}`;
+
+  switch (strategy) {
+    case "sku":
+      return variant.sku?.trim() || fallback;
+    case "barcode":
+      return variant.barcode?.trim() || fallback;
+    case "variant_id":
+      return variantId;
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * Get the stored item IDs for a shop as variant ID → item ID
+ */
+export async function getItemIdMap(
+  db: D1Database,
+  shop: string,
+): Promise<Record<string, string>> {
+  const { results } = await db
+    .prepare("SELECT variant_id, item_id FROM feed_item_ids WHERE shop = ?")
+    .bind(shop)
+    .all();
+
+  const itemIds: Record<string, string> = {};
+  for (const row of results) {
+    itemIds[row.variant_id as string] = row.item_id as string;
+  }
+  return itemIds;
+}
+
+/**
+ * Store newly assigned item IDs
+ */
+export async function saveItemIds(
+  db: D1Database,
+  shop: string,
+  itemIds: Record<string, string>,
+): Promise<void> {
+  const entries = Object.entries(itemIds);
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    await db.batch(
+      entries.slice(i, i + BATCH_SIZE).map(([variantId, itemId]) =>
+        db
+          .prepare(
+            `INSERT OR IGNORE INTO feed_item_ids (shop, variant_id, item_id)
+             VALUES (?, ?, ?)`,
+          )
+          .bind(shop, variantId, itemId),
+      ),
+    );
+  }
+}
+
+/**
+ * Forget the item IDs of variants that no longer exist, so their SKUs and
+ * barcodes can be reused
+ * Only full rebuilds see every variant, so only they may call this. Returns
+ * the released variant IDs.
+ */
+export async function releaseItemIds(
+  db: D1Database,
+  shop: string,
+  itemIds: Record<string, string>,
+  existingVariantIds: Set<string>,
+): Promise<string[]> {
+  const released = Object.keys(itemIds).filter(
+    (variantId) => !existingVariantIds.has(variantId),
+  );
+  for (let i = 0; i < released.length; i += BATCH_SIZE) {
+    await db.batch(
+      released
+        .slice(i, i + BATCH_SIZE)
+        .map((variantId) =>
+          db
+            .prepare(
+              "DELETE FROM feed_item_ids WHERE shop = ? AND variant_id = ?",
+            )
+            .bind(shop, variantId),
+        ),
+    );
+  }
+  return released;
+}
+
+/**
+ * Forget all stored item IDs, e.g. after the ID strategy changes
+ */
+export async function clearItemIds(
+  db: D1Database,
+  shop: string,
+): Promise<void> {
+  await db.prepare("DELETE FROM feed_item_ids WHERE shop = ?").bind(shop).run();
+}
@@ -0,0 +1,137 @@
+/**
+ * Feed Items
+ * Stores each feed's items as rows, so incremental generations can patch
+ * the items of changed products and rebuild the feed without refetching the
+ * whole catalog
+ *
+ * Items are written under a generation of their own and swapped in with
+ * one batch once all of them are stored. Readers only see generation 0, so
+ * a write that fails halfway leaves the previous items in place.
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { OpenAIFeedItem } from "./feed-mapper.server";
+import type { FeedKey } from "./feed-service.server";
+
+// Max statements per D1 batch when storing items
+const BATCH_SIZE = 100;
+
+/**
+ * Get the stored items of a feed, in the order they were stored
+ */
+export async function getFeedItems(
+  db: D1Database,
+  shop: string,
+  key: FeedKey,
+): Promise<OpenAIFeedItem[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT item_data FROM feed_items WHERE shop = ? AND country = ? AND locale = ? AND generation = 0 ORDER BY id",
+    )
+    .bind(shop, key.country || "", key.locale || "")
+    .all();
+
+  return results.map((row) => JSON.parse(row.item_data as string));
+}
+
+/**
+ * Store items under a new generation, hidden until it is published
+ * Returns the generation. Items left staged by an earlier failed write are
+ * dropped first.
+ */
+async function stageFeedItems(
+  db: D1Database,
+  shop: string,
+  key: FeedKey,
+  items: OpenAIFeedItem[],
+): Promise<number> {
+  const country = key.country || "";
+  const locale = key.locale || "";
+  const generation = Date.now();
+
+  await db
+    .prepare(
+      "DELETE FROM feed_items WHERE shop = ? AND country = ? AND locale = ? AND generation != 0",
+    )
+    .bind(shop, country, locale)
+    .run();
+
+  const statements = items.map((item) =>
+    db
+      .prepare(
+        `INSERT OR REPLACE INTO feed_items (shop, country, locale, generation, product_id, item_id, item_data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .bind(
+        shop,
+        country,
+        locale,
+        generation,
+        item.group_id,
+        item.item_id,
+        JSON.stringify(item),
+      ),
+  );
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + BATCH_SIZE));
+  }
+
+  return generation;
+}
+
+/**
+ * Replace the rows of the given products with the new items
+ * Items are stored under their group_id, the numeric product ID
+ */
+export async function patchFeedItems(
+  db: D1Database,
+  shop: string,
+  key: FeedKey,
+  productIds: string[],
+  items: OpenAIFeedItem[],
+): Promise<void> {
+  const country = key.country || "";
+  const locale = key.locale || "";
+  const generation = await stageFeedItems(db, shop, key, items);
+
+  await db.batch([
+    db
+      .prepare(
+        `DELETE FROM feed_items WHERE shop = ? AND country = ? AND locale = ? AND generation = 0
+         AND product_id IN (SELECT value FROM json_each(?))`,
+      )
+      .bind(shop, country, locale, JSON.stringify(productIds)),
+    db
+      .prepare(
+        "UPDATE OR REPLACE feed_items SET generation = 0 WHERE shop = ? AND country = ? AND locale = ? AND generation = ?",
+      )
+      .bind(shop, country, locale, generation),
+  ]);
+}
+
+/**
+ * Replace all stored items of a feed
+ */
+export async function replaceFeedItems(
+  db: D1Database,
+  shop: string,
+  key: FeedKey,
+  items: OpenAIFeedItem[],
+): Promise<void> {
+  const country = key.country || "";
+  const locale = key.locale || "";
+  const generation = await stageFeedItems(db, shop, key, items);
+
+  await db.batch([
+    db
+      .prepare(
+        "DELETE FROM feed_items WHERE shop = ? AND country = ? AND locale = ? AND generation = 0",
+      )
+      .bind(shop, country, locale),
+    db
+      .prepare(
+        "UPDATE feed_items SET generation = 0 WHERE shop = ? AND country = ? AND locale = ? AND generation = ?",
+      )
+      .bind(shop, country, locale, generation),
+  ]);
+}
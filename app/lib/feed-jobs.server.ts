@@ -0,0 +1,249 @@
+/**
+ * Feed Jobs
+ * Records every feed generation run with its trigger, progress and outcome,
+ * and locks the shop while one runs so two generations never overlap
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { FeedSkipReason } from "./feed-mapper.server";
+import type { FeedGenerationResult } from "./feed-service.server";
+import type { ProductExtraPages } from "./shopify-products.server";
+
+export type FeedJobTrigger = "manual" | "webhook" | "cron";
+
+export type FeedJobStatus = "running" | "completed" | "waiting" | "failed";
+
+export type FeedJobStage =
+  | "fetching"
+  | "mapping"
+  | "secondary_feeds"
+  | "storing";
+
+/**
+ * What a run did, reported with its result
+ */
+export interface FeedJobStats {
+  productsFetched: number;
+  itemsMapped: number;
+  itemsSkipped: Partial<Record<FeedSkipReason, number>>;
+  // Products too large for one page of variants, media or collections, which
+  // slow down paginated runs
+  largeProducts?: ProductExtraPages[];
+}
+
+export interface FeedJobRecord {
+  id: number;
+  trigger: FeedJobTrigger;
+  status: FeedJobStatus;
+  stage: FeedJobStage | null;
+  productsFetched: number;
+  itemsMapped: number;
+  itemsSkipped: Partial<Record<FeedSkipReason, number>>;
+  largeProducts: ProductExtraPages[];
+  error: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+/**
+ * Reports a running job's stage and how many products it fetched so far
+ */
+export type FeedJobProgress = (
+  stage: FeedJobStage,
+  productsFetched?: number,
+) => Promise<void>;
+
+// Running jobs without a progress update for this long are assumed lost
+// (the worker was evicted or timed out) and no longer hold the lock
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+// Least time between progress writes within a stage
+const PROGRESS_INTERVAL_MS = 2000;
+// Finished jobs kept per shop
+const HISTORY_SIZE = 50;
+
+function rowToFeedJobRecord(row: Record<string, unknown>): FeedJobRecord {
+  return {
+    id: row.id as number,
+    trigger: row.trigger as FeedJobTrigger,
+    status: row.status as FeedJobStatus,
+    stage: row.stage as FeedJobStage | null,
+    productsFetched: row.products_fetched as number,
+    itemsMapped: row.items_mapped as number,
+    itemsSkipped: row.items_skipped
+      ? JSON.parse(row.items_skipped as string)
+      : {},
+    largeProducts: row.large_products
+      ? JSON.parse(row.large_products as string)
+      : [],
+    error: row.error as string | null,
+    startedAt: row.started_at as number,
+    finishedAt: row.finished_at as number | null,
+  };
+}
+
+/**
+ * Start a job for a shop, or return null when another one is running
+ * Abandoned jobs are marked failed first so they don't hold the lock
+ */
+async function startFeedJob(
+  db: D1Database,
+  shop: string,
+  trigger: FeedJobTrigger,
+): Promise<number | null> {
+  const now = Date.now();
+  const staleBefore = now - LOCK_TIMEOUT_MS;
+
+  const [, insert] = await db.batch([
+    db
+      .prepare(
+        `UPDATE feed_jobs SET status = 'failed', error = 'The job stopped responding', finished_at = heartbeat_at
+         WHERE shop = ? AND status = 'running' AND heartbeat_at <= ?`,
+      )
+      .bind(shop, staleBefore),
+    db
+      .prepare(
+        `INSERT INTO feed_jobs (shop, trigger, status, started_at, heartbeat_at)
+         SELECT ?, ?, 'running', ?, ?
+         WHERE NOT EXISTS (SELECT 1 FROM feed_jobs WHERE shop = ? AND status = 'running')`,
+      )
+      .bind(shop, trigger, now, now, shop),
+  ]);
+
+  return insert.meta.changes ? (insert.meta.last_row_id as number) : null;
+}
+
+/**
+ * Build the progress reporter for a job
+ * Writes are throttled within a stage; each write also renews the lock
+ */
+function createJobProgress(db: D1Database, jobId: number): FeedJobProgress {
+  let lastStage: FeedJobStage | null = null;
+  let lastWrite = 0;
+  let productsFetched = 0;
+
+  return async (stage, fetched) => {
+    if (fetched !== undefined) productsFetched = fetched;
+    const now = Date.now();
+    if (stage === lastStage && now - lastWrite < PROGRESS_INTERVAL_MS) return;
+
+    lastStage = stage;
+    lastWrite = now;
+    await db
+      .prepare(
+        "UPDATE feed_jobs SET stage = ?, products_fetched = ?, heartbeat_at = ? WHERE id = ?",
+      )
+      .bind(stage, productsFetched, now, jobId)
+      .run();
+  };
+}
+
+/**
+ * Record how a job ended and trim the shop's history
+ */
+async function finishFeedJob(
+  db: D1Database,
+  shop: string,
+  jobId: number,
+  result: FeedGenerationResult,
+): Promise<void> {
+  const status: FeedJobStatus = !result.success
+    ? "failed"
+    : result.pending
+      ? "waiting"
+      : "completed";
+  const stats = result.stats;
+
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE feed_jobs SET status = ?, stage = NULL, products_fetched = COALESCE(?, products_fetched), items_mapped = ?,
+           items_skipped = ?, large_products = ?, error = ?, finished_at = ?
+         WHERE id = ?`,
+      )
+      .bind(
+        status,
+        stats?.productsFetched ?? null,
+        stats?.itemsMapped ?? 0,
+        stats ? JSON.stringify(stats.itemsSkipped) : null,
+        stats?.largeProducts?.length
+          ? JSON.stringify(stats.largeProducts)
+          : null,
+        result.error ?? null,
+        Date.now(),
+        jobId,
+      ),
+    db
+      .prepare(
+        `DELETE FROM feed_jobs WHERE shop = ? AND status != 'running' AND id NOT IN (
+           SELECT id FROM feed_jobs WHERE shop = ? ORDER BY id DESC LIMIT ?
+         )`,
+      )
+      .bind(shop, shop, HISTORY_SIZE),
+  ]);
+}
+
+/**
+ * Run a feed generation as a tracked job
+ * Returns null without running it when another job holds the shop's lock
+ */
+export async function trackFeedJob(
+  db: D1Database,
+  shop: string,
+  trigger: FeedJobTrigger,
+  run: (progress: FeedJobProgress) => Promise<FeedGenerationResult>,
+): Promise<FeedGenerationResult | null> {
+  const jobId = await startFeedJob(db, shop, trigger);
+  if (jobId === null) {
+    console.log(`[Feed] A feed generation is already running for ${shop}`);
+    return null;
+  }
+
+  let result: FeedGenerationResult;
+  try {
+    result = await run(createJobProgress(db, jobId));
+  } catch (error) {
+    result = {
+      success: false,
+      productCount: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  await finishFeedJob(db, shop, jobId, result);
+  return result;
+}
+
+/**
+ * Get the job currently running for a shop, if any
+ */
+export async function getRunningFeedJob(
+  db: D1Database,
+  shop: string,
+): Promise<FeedJobRecord | null> {
+  const row = await db
+    .prepare(
+      "SELECT * FROM feed_jobs WHERE shop = ? AND status = 'running' AND heartbeat_at > ? ORDER BY id DESC LIMIT 1",
+    )
+    .bind(shop, Date.now() - LOCK_TIMEOUT_MS)
+    .first();
+
+  return row ? rowToFeedJobRecord(row) : null;
+}
+
+/**
+ * List a shop's finished jobs, newest first
+ */
+export async function getFeedJobHistory(
+  db: D1Database,
+  shop: string,
+  limit = 10,
+): Promise<FeedJobRecord[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT * FROM feed_jobs WHERE shop = ? AND status != 'running' ORDER BY id DESC LIMIT ?",
+    )
+    .bind(shop, limit)
+    .all();
+
+  return results.map(rowToFeedJobRecord);
+}
@@ -8,7 +8,40 @@ import type {
   ShopifyProduct,
   ShopifyVariant,
   ShopInfo,
+  ShopMarket,
 } from "./shopify-products.server";
+import { findRemovingRule, type FeedRule } from "./feed-rules.server";
+import {
+  getMetafieldText,
+  type MetafieldMapping,
+} from "./feed-metafields.server";
+import { normalizeGtin } from "./gtin.server";
+import { formatCategoryPath } from "./feed-categories.server";
+import {
+  buildShippingFields,
+  type ShippingContext,
+} from "./feed-shipping.server";
+import {
+  getProductTranslations,
+  translateOptionValue,
+  type ProductTranslations,
+} from "./feed-translations.server";
+import type { FeedIssue } from "./feed-issues.server";
+import {
+  validateFeedItem,
+  ENUM_VALUES,
+  FIELD_MAX_LENGTHS,
+} from "./feed-validator.server";
+import { getReviewFields } from "./feed-reviews.server";
+import { getItemMedia } from "./feed-media.server";
+import { buildItemId, type ItemIdStrategy } from "./feed-item-ids.server";
+import { getUnitPricingFields } from "./feed-unit-pricing.server";
+import type { RegenerationInterval } from "./feed-schedule.server";
+import {
+  buildTemplateValues,
+  renderTemplate,
+  truncateText,
+} from "./feed-templates.server";
 
 export interface FeedSettings {
   shop: string;
@@ -24,8 +57,35 @@ export interface FeedSettings {
   accepts_exchanges: boolean;
   store_country: string;
   target_countries: string;
+  enable_market_feeds: boolean;
+  enable_locale_feeds: boolean;
+  shipping_handling_days: number;
+  title_template: string | null;
+  description_template: string | null;
+  preorder_tag: string | null;
+  preorder_metafield: string | null;
+  availability_date_metafield: string | null;
+  oversold_availability: FeedAvailability;
+  safety_stock: number;
+  // Location GIDs counted toward inventory, null for all locations
+  inventory_location_ids: string[] | null;
+  review_rating_metafield: string | null;
+  review_count_metafield: string | null;
+  review_rating_scale: number;
+  image_min_resolution: number;
+  item_id_strategy: ItemIdStrategy;
+  unit_pricing_metafield: string | null;
+  tombstone_grace_days: number;
+  publication_id: string | null;
+  regeneration_interval: RegenerationInterval;
 }
 
+export type FeedAvailability =
+  | "in_stock"
+  | "out_of_stock"
+  | "preorder"
+  | "backorder";
+
 export interface OpenAIFeedItem {
   // OpenAI flags
   is_eligible_search: boolean;
@@ -39,16 +99,28 @@ export interface OpenAIFeedItem {
   condition: string;
   product_category: string;
   brand: string;
+  material?: string;
+  gender?: string;
+  age_group?: string;
+  gtin?: string;
+  mpn?: string;
+  pattern?: string;
   weight?: string;
   item_weight_unit?: string;
   // Media
   image_url: string;
   additional_image_urls?: string;
+  video_link?: string;
+  model_3d_link?: string;
   // Price & Promotions
   price: string;
   sale_price?: string;
+  unit_pricing_measure?: string;
+  unit_pricing_base_measure?: string;
   // Availability & Inventory
-  availability: "in_stock" | "out_of_stock" | "preorder";
+  availability: FeedAvailability;
+  availability_date?: string;
+  inventory_quantity?: number;
   // Variants
   group_id: string;
   listing_has_variations: boolean;
@@ -57,11 +129,20 @@ export interface OpenAIFeedItem {
   color?: string;
   size?: string;
   offer_id?: string;
+  // Reviews
+  product_review_rating?: number;
+  product_review_count?: number;
   // Merchant info
   seller_name: string;
   seller_url: string;
   seller_privacy_policy?: string;
   seller_tos?: string;
+  // Shipping
+  shipping?: string;
+  delivery_estimate?: string;
+  // Business days until delivery, replaced by delivery_estimate when the
+  // feed is stored
+  delivery_days?: number;
   // Returns
   accepts_returns?: boolean;
   return_deadline_in_days?: number;
@@ -72,34 +153,184 @@ export interface OpenAIFeedItem {
   store_country: string;
 }
 
+/**
+ * Optional inputs for mapping products to the feed
+ */
+export interface FeedMapOptions {
+  rules?: FeedRule[];
+  metafieldMappings?: MetafieldMapping[];
+  // Lowercase product type → taxonomy path, see buildCategoryLookup
+  categoryLookup?: Record<string, string>;
+  // Set when generating a market-specific feed
+  market?: ShopMarket;
+  // Set when generating a translated feed; products must include translations
+  locale?: string;
+  shipping?: ShippingContext;
+  // Previously assigned item IDs, variant ID → item ID
+  itemIds?: Record<string, string>;
+  // Items already in the feed from products not being mapped, item ID →
+  // title, so their IDs count as taken
+  listedItems?: Map<string, string>;
+  report?: FeedMapReport;
+}
+
+/**
+ * Why a variant was left out of the feed
+ */
+export type FeedSkipReason =
+  | "unpublished"
+  | "no_image"
+  | "rule"
+  | "invalid"
+  | "duplicate";
+
+/**
+ * Statistics collected while mapping, used to explain what was left out
+ */
+export interface FeedMapReport {
+  // Number of products mapped
+  products: number;
+  // Skip reason → number of variants left out
+  skipped: Partial<Record<FeedSkipReason, number>>;
+  // Rule ID → number of variants the rule removed
+  ruleExclusions: Record<number, number>;
+  // Per-item problems merchants should fix in Shopify
+  issues: FeedIssue[];
+  // Item IDs assigned in this run, variant ID → item ID
+  newItemIds: Record<string, string>;
+  // Every variant mapped or left out, by numeric ID
+  variantIds: Set<string>;
+}
+
+/**
+ * Create an empty mapping report
+ */
+export function createMapReport(): FeedMapReport {
+  return {
+    products: 0,
+    skipped: {},
+    ruleExclusions: {},
+    issues: [],
+    newItemIds: {},
+    variantIds: new Set(),
+  };
+}
+
+/**
+ * Count a variant left out of the feed
+ */
+function countSkipped(
+  report: FeedMapReport | undefined,
+  reason: FeedSkipReason,
+): void {
+  if (report) {
+    report.skipped[reason] = (report.skipped[reason] || 0) + 1;
+  }
+}
+
 /**
  * Extract a numeric Shopify ID from a GID string
  * e.g., "gid://shopify/Product/123456" → "123456"
  */
-function extractShopifyId(gid: string): string {
+export function extractShopifyId(gid: string): string {
   const parts = gid.split("/");
   return parts[parts.length - 1];
 }
 
+/**
+ * Read a "namespace.key" metafield, preferring the variant over the product
+ */
+function getVariantMetafieldText(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  identifier: string,
+): string | undefined {
+  const [namespace, key] = identifier.split(".");
+  return (
+    getMetafieldText(variant.metafields, namespace, key) ??
+    getMetafieldText(product.metafields, namespace, key)
+  );
+}
+
+/**
+ * Get a tracked variant's stock, summed over the shop's selected locations
+ * Returns null for variants whose inventory is not tracked
+ */
+function getInventoryQuantity(
+  variant: ShopifyVariant,
+  settings: FeedSettings,
+): number | null {
+  if (
+    variant.inventoryItem?.tracked === false ||
+    variant.inventoryQuantity === null ||
+    variant.inventoryQuantity === undefined
+  ) {
+    return null;
+  }
+
+  const levels = variant.inventoryItem?.inventoryLevels?.nodes;
+  if (!settings.inventory_location_ids || !levels) {
+    return variant.inventoryQuantity;
+  }
+
+  return levels
+    .filter((level) =>
+      settings.inventory_location_ids!.includes(level.location.id),
+    )
+    .reduce(
+      (total, level) =>
+        total +
+        (level.quantities.find((q) => q.name === "available")?.quantity || 0),
+      0,
+    );
+}
+
 /**
  * Determine product availability based on variant data
+ * Preorder comes from the shop's preorder tag or metafield. Tracked variants
+ * that stop selling at zero stock are out of stock below the shop's safety
+ * stock. Sold out variants that keep selling are listed as the shop
+ * configures.
+ * Preorder items need an availability date, so variants without one are
+ * listed by their stock instead, and oversold ones as backorder.
  */
 function getAvailability(
+  product: ShopifyProduct,
   variant: ShopifyVariant,
-): "in_stock" | "out_of_stock" | "preorder" {
-  // If inventory policy is "continue" (sell when out of stock), treat as in_stock
-  if (variant.inventoryPolicy === "CONTINUE") {
-    return "in_stock";
+  settings: FeedSettings,
+  inventoryQuantity: number | null,
+): FeedAvailability {
+  const canPreorder = Boolean(getAvailabilityDate(product, variant, settings));
+  const preorderTag = settings.preorder_tag?.toLowerCase();
+  if (
+    canPreorder &&
+    preorderTag &&
+    product.tags.some((t) => t.toLowerCase() === preorderTag)
+  ) {
+    return "preorder";
   }
-
-  if (variant.availableForSale) {
-    return "in_stock";
+  if (
+    canPreorder &&
+    settings.preorder_metafield &&
+    getVariantMetafieldText(
+      product,
+      variant,
+      settings.preorder_metafield,
+    )?.toLowerCase() === "true"
+  ) {
+    return "preorder";
   }
 
+  if (inventoryQuantity !== null && inventoryQuantity <= 0) {
+    if (variant.inventoryPolicy !== "CONTINUE") return "out_of_stock";
+    return settings.oversold_availability === "preorder" && !canPreorder
+      ? "backorder"
+      : settings.oversold_availability;
+  }
   if (
-    variant.inventoryQuantity !== null &&
-    variant.inventoryQuantity !== undefined &&
-    variant.inventoryQuantity <= 0
+    inventoryQuantity !== null &&
+    inventoryQuantity < settings.safety_stock &&
+    variant.inventoryPolicy !== "CONTINUE"
   ) {
     return "out_of_stock";
   }
@@ -107,6 +338,27 @@ function getAvailability(
   return variant.availableForSale ? "in_stock" : "out_of_stock";
 }
 
+/**
+ * Read the availability date from the shop's date metafield as YYYY-MM-DD
+ */
+function getAvailabilityDate(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  settings: FeedSettings,
+): string | undefined {
+  if (!settings.availability_date_metafield) return undefined;
+
+  const value = getVariantMetafieldText(
+    product,
+    variant,
+    settings.availability_date_metafield,
+  );
+  const date = value ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return undefined;
+
+  return date.toISOString().slice(0, 10);
+}
+
 /**
  * Build the product URL from shop domain + handle
  */
@@ -133,6 +385,7 @@ function mapWeightUnit(unit: string): string {
  */
 function buildVariantDict(
   variant: ShopifyVariant,
+  translations: ProductTranslations | null,
 ): Record<string, string> | undefined {
   if (
     !variant.selectedOptions ||
@@ -145,7 +398,12 @@ function buildVariantDict(
 
   const dict: Record<string, string> = {};
   for (const opt of variant.selectedOptions) {
-    dict[opt.name.toLowerCase()] = opt.value;
+    const name = translations?.optionNames[opt.name] || opt.name;
+    dict[name.toLowerCase()] = translateOptionValue(
+      translations,
+      opt.name,
+      opt.value,
+    );
   }
   return dict;
 }
@@ -156,16 +414,35 @@ function buildVariantDict(
 function extractOption(
   variant: ShopifyVariant,
   optionName: string,
+  translations: ProductTranslations | null,
 ): string | undefined {
   const option = variant.selectedOptions.find(
     (o) => o.name.toLowerCase() === optionName.toLowerCase(),
   );
   if (option && option.value !== "Default Title") {
-    return option.value;
+    return translateOptionValue(translations, option.name, option.value);
   }
   return undefined;
 }
 
+/**
+ * Resolve the product's taxonomy category path
+ * Prefers the Shopify category, then the merchant's product type mapping
+ */
+function getProductCategory(
+  product: ShopifyProduct,
+  categoryLookup: Record<string, string> = {},
+): string {
+  if (product.category?.fullName) {
+    return formatCategoryPath(product.category.fullName);
+  }
+  return (
+    categoryLookup[product.productType.toLowerCase()] ||
+    product.productType ||
+    "Uncategorized"
+  );
+}
+
 /**
  * Strip HTML tags from description
  */
@@ -182,6 +459,115 @@ function stripHtml(html: string): string {
     .trim();
 }
 
+/**
+ * Whether a variant is one of several real variants of its product
+ */
+function hasRealVariants(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+): boolean {
+  return (
+    product.variants.edges.length > 1 ||
+    (variant.selectedOptions.length > 0 &&
+      variant.selectedOptions[0]?.value !== "Default Title")
+  );
+}
+
+/**
+ * Build an item's title and description, from the shop's templates when set
+ * Both are truncated to the spec's length limits
+ */
+export function buildItemText(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  settings: Pick<FeedSettings, "title_template" | "description_template">,
+  translations: ProductTranslations | null = null,
+): { title: string; description: string } {
+  const productTitle = translations?.title || product.title;
+
+  // Description - prefer plain text, fall back to stripped HTML
+  let description = translations?.descriptionHtml
+    ? stripHtml(translations.descriptionHtml)
+    : product.description || stripHtml(product.descriptionHtml) || productTitle;
+
+  const variantTitle = translations
+    ? variant.selectedOptions
+        .map((o) => translateOptionValue(translations, o.name, o.value))
+        .join(" / ")
+    : variant.title;
+  let title = hasRealVariants(product, variant)
+    ? `${productTitle} - ${variantTitle}`
+    : productTitle;
+
+  if (settings.title_template || settings.description_template) {
+    const getValue = buildTemplateValues(
+      product,
+      variant,
+      { title: productTitle, description },
+      translations,
+    );
+    // Fall back to the defaults when a template renders empty
+    if (settings.title_template) {
+      title = renderTemplate(settings.title_template, getValue) || title;
+    }
+    if (settings.description_template) {
+      description =
+        renderTemplate(settings.description_template, getValue) || description;
+    }
+  }
+
+  return {
+    title: truncateText(title, FIELD_MAX_LENGTHS.title!),
+    description: truncateText(description, FIELD_MAX_LENGTHS.description!),
+  };
+}
+
+/**
+ * Override feed fields with values from mapped metafields
+ * Product metafields are applied first so variant metafields take precedence.
+ * Values of enum fields are lowercased; ones that still aren't allowed are
+ * skipped and returned so they can be reported.
+ */
+function applyMetafieldMappings(
+  item: OpenAIFeedItem,
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  mappings: MetafieldMapping[],
+): Array<{ mapping: MetafieldMapping; value: string }> {
+  const rejected: Array<{ mapping: MetafieldMapping; value: string }> = [];
+  const byOwner = [
+    { owner: "product", metafields: product.metafields },
+    { owner: "variant", metafields: variant.metafields },
+  ];
+
+  for (const { owner, metafields } of byOwner) {
+    for (const mapping of mappings) {
+      if (mapping.owner !== owner) continue;
+
+      const value = getMetafieldText(
+        metafields,
+        mapping.namespace,
+        mapping.key,
+      );
+      if (!value) continue;
+
+      const allowed = ENUM_VALUES[mapping.feed_field];
+      if (!allowed) {
+        item[mapping.feed_field] = value;
+        continue;
+      }
+      const normalized = value.trim().toLowerCase();
+      if (allowed.includes(normalized)) {
+        item[mapping.feed_field] = normalized;
+      } else {
+        rejected.push({ mapping, value });
+      }
+    }
+  }
+
+  return rejected;
+}
+
 /**
  * Map a single Shopify product + variant to an OpenAI feed item
  */
@@ -190,9 +576,12 @@ function mapVariantToFeedItem(
   variant: ShopifyVariant,
   shopInfo: ShopInfo,
   settings: FeedSettings,
+  options: FeedMapOptions,
+  issues: FeedIssue[],
 ): OpenAIFeedItem | null {
-  // Skip draft products
-  if (product.status !== "ACTIVE") {
+  // Skip draft products and products not published to the feed's channel
+  if (product.status !== "ACTIVE" || product.publishedOnPublication === false) {
+    countSkipped(options.report, "unpublished");
     return null;
   }
 
@@ -202,37 +591,105 @@ function mapVariantToFeedItem(
     settings.seller_url || shopInfo.primaryDomain?.url || shopInfo.url;
   const cleanShopUrl = shopUrl.replace(/\/$/, "");
 
-  // Build product URL
-  const productUrl =
+  // Translations for locale feeds; missing ones fall back to the default language
+  const translations = options.locale ? getProductTranslations(product) : null;
+  const productTitle = translations?.title || product.title;
+
+  // Build product URL, using the market's storefront URL or the locale's
+  // subfolder when generating those feeds
+  let productUrl =
     product.onlineStoreUrl || buildProductUrl(cleanShopUrl, product.handle);
+  if (options.market?.rootUrl) {
+    productUrl = buildProductUrl(options.market.rootUrl, product.handle);
+  } else if (options.locale) {
+    productUrl = buildProductUrl(
+      `${cleanShopUrl}/${options.locale}`,
+      product.handle,
+    );
+  }
 
-  // Get images - use variant image if available, otherwise product images
-  const variantImage = variant.image?.url;
-  const productImages = product.images.edges.map((e) => e.node.url);
-  const mainImage = variantImage || productImages[0] || "";
+  // Get media - use variant image if available, otherwise product images
+  const media = getItemMedia(product, variant, settings.image_min_resolution);
 
-  if (!mainImage) {
+  if (!media.imageUrl) {
+    countSkipped(options.report, "no_image");
     return null; // Skip products without images
   }
 
-  // Additional images (exclude the main one)
-  const additionalImages = productImages.filter((url) => url !== mainImage);
-
-  // Description - prefer plain text, fall back to stripped HTML
-  const description =
-    product.description || stripHtml(product.descriptionHtml) || product.title;
-
-  // Currency
-  const currency = shopInfo.currencyCode || "USD";
+  // Price and currency, from contextual pricing for market feeds
+  const marketPricing = options.market ? variant.contextualPricing : undefined;
+  const price = marketPricing?.price.amount ?? variant.price;
+  const compareAtPrice = marketPricing
+    ? (marketPricing.compareAtPrice?.amount ?? null)
+    : variant.compareAtPrice;
+  const currency =
+    marketPricing?.price.currencyCode ||
+    options.market?.currencyCode ||
+    shopInfo.currencyCode ||
+    "USD";
 
   // Determine if this product has real variants
-  const hasVariations =
-    product.variants.edges.length > 1 ||
-    (variant.selectedOptions.length > 0 &&
-      variant.selectedOptions[0]?.value !== "Default Title");
+  const hasVariations = hasRealVariants(product, variant);
 
   // Build variant dict
-  const variantDict = buildVariantDict(variant);
+  const variantDict = buildVariantDict(variant, translations);
+
+  // Keep the ID the variant was first listed with
+  const itemId =
+    options.itemIds?.[variantId] ||
+    buildItemId(variant, productId, variantId, settings.item_id_strategy);
+  const { title, description } = buildItemText(
+    product,
+    variant,
+    settings,
+    translations,
+  );
+
+  // GTIN from the barcode; invalid barcodes are reported so they can be fixed
+  const gtinResult = variant.barcode ? normalizeGtin(variant.barcode) : null;
+  if (gtinResult && !gtinResult.valid) {
+    issues.push({
+      item_id: itemId,
+      product_id: productId,
+      variant_id: variantId,
+      title,
+      severity: "warning",
+      field: "gtin",
+      code: "invalid_gtin",
+      message: `Barcode "${variant.barcode}" ${gtinResult.reason}`,
+    });
+  }
+  const gtin = gtinResult?.valid ? gtinResult.gtin : undefined;
+
+  if (media.smallImage) {
+    issues.push({
+      item_id: itemId,
+      product_id: productId,
+      variant_id: variantId,
+      title,
+      severity: "warning",
+      field: "image_url",
+      code: "image_too_small",
+      message: `Image is ${media.smallImage.width}×${media.smallImage.height}px, below the ${settings.image_min_resolution}px minimum`,
+    });
+  }
+
+  // Preorder and backorder items say when they can ship
+  const inventoryQuantity = getInventoryQuantity(variant, settings);
+  const availability = getAvailability(
+    product,
+    variant,
+    settings,
+    inventoryQuantity,
+  );
+  const availabilityDate =
+    availability === "preorder" || availability === "backorder"
+      ? getAvailabilityDate(product, variant, settings)
+      : undefined;
+
+  // Countries this feed targets
+  const targetCountries =
+    options.market?.countries.join(",") || settings.target_countries || "US";
 
   // Build the feed item
   const item: OpenAIFeedItem = {
@@ -241,47 +698,57 @@ function mapVariantToFeedItem(
     is_eligible_checkout: settings.enable_checkout,
 
     // Basic product data
-    item_id: variant.sku || `${productId}-${variantId}`,
-    title: hasVariations
-      ? `${product.title} - ${variant.title}`
-      : product.title,
+    item_id: itemId,
+    title,
     description,
     url: productUrl,
 
     // Item info
     condition: "new",
-    product_category: product.productType || "Uncategorized",
+    product_category: getProductCategory(product, options.categoryLookup),
     brand: product.vendor || settings.seller_name || "",
+    ...(gtin && { gtin }),
+    // Without a valid GTIN, the SKU identifies the product as MPN
+    ...(!gtin && variant.sku && { mpn: variant.sku }),
 
     // Media
-    image_url: mainImage,
-    ...(additionalImages.length > 0 && {
-      additional_image_urls: additionalImages.join(","),
+    image_url: media.imageUrl,
+    ...(media.additionalImageUrls.length > 0 && {
+      additional_image_urls: media.additionalImageUrls.join(","),
     }),
+    ...(media.videoUrl && { video_link: media.videoUrl }),
+    ...(media.modelUrl && { model_3d_link: media.modelUrl }),
 
     // Price & Promotions
-    price: `${variant.price} ${currency}`,
-    ...(variant.compareAtPrice &&
-      parseFloat(variant.compareAtPrice) > parseFloat(variant.price) && {
-        sale_price: `${variant.price} ${currency}`,
-        price: `${variant.compareAtPrice} ${currency}`,
+    price: `${price} ${currency}`,
+    ...(compareAtPrice &&
+      parseFloat(compareAtPrice) > parseFloat(price) && {
+        sale_price: `${price} ${currency}`,
+        price: `${compareAtPrice} ${currency}`,
       }),
+    ...getUnitPricingFields(product, variant, settings.unit_pricing_metafield),
 
     // Availability
-    availability: getAvailability(variant),
+    availability,
+    ...(availabilityDate && { availability_date: availabilityDate }),
+    // Items held back by the safety stock are listed with none left
+    ...(inventoryQuantity !== null && {
+      inventory_quantity:
+        availability === "out_of_stock" ? 0 : Math.max(inventoryQuantity, 0),
+    }),
 
     // Variants
     group_id: productId,
     listing_has_variations: hasVariations,
     ...(variantDict && { variant_dict: JSON.stringify(variantDict) }),
-    item_group_title: product.title,
-    ...(extractOption(variant, "color") && {
-      color: extractOption(variant, "color"),
+    item_group_title: productTitle,
+    ...(extractOption(variant, "color", translations) && {
+      color: extractOption(variant, "color", translations),
     }),
-    ...(extractOption(variant, "size") && {
-      size: extractOption(variant, "size"),
+    ...(extractOption(variant, "size", translations) && {
+      size: extractOption(variant, "size", translations),
     }),
-    offer_id: variant.sku || `${productId}-${variantId}`,
+    offer_id: itemId,
 
     // Weight
     ...(variant.inventoryItem?.measurement?.weight &&
@@ -290,6 +757,9 @@ function mapVariantToFeedItem(
         item_weight_unit: mapWeightUnit(variant.inventoryItem.measurement.weight.unit),
       }),
 
+    // Reviews
+    ...getReviewFields(product, settings),
+
     // Merchant info
     seller_name: settings.seller_name || shopInfo.name || "",
     seller_url: cleanShopUrl,
@@ -300,6 +770,17 @@ function mapVariantToFeedItem(
       seller_tos: settings.terms_of_service_url,
     }),
 
+    // Shipping, left out of market feeds priced in another currency since
+    // rates are in the shop's currency
+    ...(options.shipping &&
+      currency === options.shipping.currencyCode &&
+      buildShippingFields(
+        product,
+        variant,
+        targetCountries.split(",").map((c) => c.trim()),
+        options.shipping,
+      )),
+
     // Returns
     ...(settings.return_policy_url && {
       accepts_returns: settings.accepts_returns,
@@ -309,45 +790,187 @@ function mapVariantToFeedItem(
     }),
 
     // Geo
-    target_countries: settings.target_countries || "US",
+    target_countries: targetCountries,
     store_country:
       settings.store_country || shopInfo.billingAddress?.countryCodeV2 || "US",
   };
 
+  // Merchant-configured metafield overrides
+  if (options.metafieldMappings?.length) {
+    const rejected = applyMetafieldMappings(
+      item,
+      product,
+      variant,
+      options.metafieldMappings,
+    );
+    for (const { mapping, value } of rejected) {
+      issues.push({
+        item_id: itemId,
+        product_id: productId,
+        variant_id: variantId,
+        title,
+        severity: "warning",
+        field: mapping.feed_field,
+        code: "invalid_metafield_value",
+        message: `Metafield ${mapping.namespace}.${mapping.key} value "${value}" must be one of: ${ENUM_VALUES[mapping.feed_field]!.join(", ")}`,
+      });
+    }
+  }
+
   return item;
 }
 
+/**
+ * Map one product's variants, adding the items that pass to feedItems
+ * listedItemIds (item ID → title) carries duplicate detection across products
+ */
+function mapProductVariants(
+  product: ShopifyProduct,
+  shopInfo: ShopInfo,
+  settings: FeedSettings,
+  options: FeedMapOptions,
+  feedItems: OpenAIFeedItem[],
+  listedItemIds: Map<string, string>,
+): void {
+  const { rules = [], report } = options;
+  if (report) report.products++;
+
+  for (const variantEdge of product.variants.edges) {
+    const variantId = extractShopifyId(variantEdge.node.id);
+    report?.variantIds.add(variantId);
+    const itemIssues: FeedIssue[] = [];
+    const item = mapVariantToFeedItem(
+      product,
+      variantEdge.node,
+      shopInfo,
+      settings,
+      options,
+      itemIssues,
+    );
+    if (!item) continue;
+
+    // Apply merchant-defined include/exclude rules
+    const removingRule = findRemovingRule(rules, product, variantEdge.node);
+    if (removingRule) {
+      if (report) {
+        report.ruleExclusions[removingRule.id] =
+          (report.ruleExclusions[removingRule.id] || 0) + 1;
+      }
+      countSkipped(report, "rule");
+      continue;
+    }
+
+    const validationIssues = validateFeedItem(item);
+    const duplicateOf = listedItemIds.get(item.item_id);
+    if (duplicateOf !== undefined) {
+      validationIssues.push({
+        severity: "error",
+        field: "item_id",
+        code: "duplicate_item_id",
+        message: `Item ID "${item.item_id}" is already used by "${duplicateOf}"`,
+      });
+    }
+    for (const issue of validationIssues) {
+      itemIssues.push({
+        item_id: item.item_id,
+        product_id: extractShopifyId(product.id),
+        variant_id: variantId,
+        title: item.title,
+        ...issue,
+      });
+    }
+    report?.issues.push(...itemIssues);
+
+    if (validationIssues.some((issue) => issue.severity === "error")) {
+      countSkipped(report, duplicateOf !== undefined ? "duplicate" : "invalid");
+      continue;
+    }
+    feedItems.push(item);
+    listedItemIds.set(item.item_id, item.title);
+
+    if (report && !options.itemIds?.[variantId]) {
+      report.newItemIds[variantId] = item.item_id;
+    }
+  }
+}
+
 /**
  * Map all Shopify products to OpenAI feed items
- * Each variant becomes its own row in the feed
+ * Each variant becomes its own row in the feed. Items that fail spec
+ * validation with an error or reuse another item's ID are left out and
+ * reported.
  */
 export function mapProductsToFeed(
   products: ShopifyProduct[],
   shopInfo: ShopInfo,
   settings: FeedSettings,
+  options: FeedMapOptions = {},
 ): OpenAIFeedItem[] {
   const feedItems: OpenAIFeedItem[] = [];
+  const listedItemIds = new Map(options.listedItems);
 
   for (const product of products) {
-    for (const variantEdge of product.variants.edges) {
-      const item = mapVariantToFeedItem(
-        product,
-        variantEdge.node,
-        shopInfo,
-        settings,
-      );
-      if (item) {
-        feedItems.push(item);
-      }
-    }
+    mapProductVariants(
+      product,
+      shopInfo,
+      settings,
+      options,
+      feedItems,
+      listedItemIds,
+    );
   }
 
   return feedItems;
 }
 
+/**
+ * A feed mapped one product at a time
+ */
+export interface FeedMapper {
+  items: OpenAIFeedItem[];
+  add: (product: ShopifyProduct) => void;
+}
+
+/**
+ * Map products to feed items as they arrive from a stream
+ * Only the feed items are kept in memory, not the products, so several
+ * feeds can be mapped from one stream
+ */
+export function createFeedMapper(
+  shopInfo: ShopInfo,
+  settings: FeedSettings,
+  options: FeedMapOptions = {},
+): FeedMapper {
+  const items: OpenAIFeedItem[] = [];
+  const listedItemIds = new Map(options.listedItems);
+
+  return {
+    items,
+    add: (product) =>
+      mapProductVariants(
+        product,
+        shopInfo,
+        settings,
+        options,
+        items,
+        listedItemIds,
+      ),
+  };
+}
+
 /**
  * Convert feed items to JSONL format (one JSON object per line)
  */
 export function feedItemsToJsonl(items: OpenAIFeedItem[]): string {
   return items.map((item) => JSON.stringify(item)).join("\n");
 }
+
+/**
+ * Parse a JSONL feed back into feed items
+ */
+export function jsonlToFeedItems(jsonl: string): OpenAIFeedItem[] {
+  return jsonl
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
@@ -0,0 +1,91 @@
+/**
+ * Product Media
+ * Picks feed images, videos and 3D models from a product's media gallery
+ */
+
+import type {
+  ShopifyImage,
+  ShopifyProduct,
+  ShopifyVariant,
+} from "./shopify-products.server";
+
+// Longest side in pixels feed images are served at. Shopify never upscales,
+// so smaller images keep their size; the minimum resolution only filters.
+export const FEED_IMAGE_SIZE = 2048;
+
+export interface ItemMedia {
+  // Empty when the product has no images
+  imageUrl: string;
+  additionalImageUrls: string[];
+  videoUrl?: string;
+  modelUrl?: string;
+  // Set when the main image is below the minimum resolution
+  smallImage?: ShopifyImage;
+}
+
+/**
+ * Whether an image's longest side reaches the minimum resolution
+ * Images without known dimensions are kept
+ */
+function meetsResolution(image: ShopifyImage, minResolution: number): boolean {
+  if (!minResolution || image.width === null || image.height === null) {
+    return true;
+  }
+  return Math.max(image.width, image.height) >= minResolution;
+}
+
+/**
+ * Collect the media for one variant
+ * The variant's image comes first, then gallery images in position order.
+ * Images below the minimum resolution are dropped, unless there is no other
+ * image to use.
+ */
+export function getItemMedia(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  minResolution: number,
+): ItemMedia {
+  const media = product.media.edges.map((e) => e.node);
+
+  const galleryImages: ShopifyImage[] = [];
+  let videoUrl: string | undefined;
+  let modelUrl: string | undefined;
+
+  for (const node of media) {
+    if (node.mediaContentType === "IMAGE" && node.image) {
+      galleryImages.push(node.image);
+    } else if (node.mediaContentType === "VIDEO" && !videoUrl) {
+      // Highest resolution MP4 rendition
+      videoUrl = [...node.sources]
+        .filter((s) => s.mimeType === "video/mp4")
+        .sort((a, b) => b.height - a.height)[0]?.url;
+    } else if (node.mediaContentType === "EXTERNAL_VIDEO" && !videoUrl) {
+      videoUrl = node.originUrl;
+    } else if (node.mediaContentType === "MODEL_3D" && !modelUrl) {
+      modelUrl = (
+        node.sources.find((s) => s.format === "glb") || node.sources[0]
+      )?.url;
+    }
+  }
+
+  const allImages = variant.image
+    ? [
+        variant.image,
+        ...galleryImages.filter((i) => i.url !== variant.image!.url),
+      ]
+    : galleryImages;
+  const images = allImages.filter((i) => meetsResolution(i, minResolution));
+
+  // Fall back to a small image rather than dropping the item
+  const mainImage = images[0] || allImages[0];
+
+  return {
+    imageUrl: mainImage?.url || "",
+    additionalImageUrls: images
+      .filter((i) => i !== mainImage)
+      .map((i) => i.url),
+    ...(videoUrl && { videoUrl }),
+    ...(modelUrl && { modelUrl }),
+    ...(mainImage && !images.includes(mainImage) && { smallImage: mainImage }),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Metafield Mappings
+ * Per-shop mapping of Shopify metafields onto OpenAI feed fields
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { ShopifyMetafield } from "./shopify-products.server";
+
+export type MetafieldOwner = "product" | "variant";
+
+export type MappableFeedField =
+  | "brand"
+  | "condition"
+  | "material"
+  | "gender"
+  | "age_group"
+  | "mpn"
+  | "color"
+  | "size"
+  | "pattern";
+
+export interface MetafieldMapping {
+  id: number;
+  shop: string;
+  owner: MetafieldOwner;
+  namespace: string;
+  key: string;
+  feed_field: MappableFeedField;
+}
+
+export const MAPPABLE_FEED_FIELDS: Record<MappableFeedField, string> = {
+  brand: "Brand",
+  condition: "Condition",
+  material: "Material",
+  gender: "Gender",
+  age_group: "Age group",
+  mpn: "MPN",
+  color: "Color",
+  size: "Size",
+  pattern: "Pattern",
+};
+
+/**
+ * Get the unique "namespace.key" identifiers to fetch for products and variants
+ */
+export function getMetafieldKeys(mappings: MetafieldMapping[]): {
+  product: string[];
+  variant: string[];
+} {
+  const keysFor = (owner: MetafieldOwner) => [
+    ...new Set(
+      mappings
+        .filter((m) => m.owner === owner)
+        .map((m) => `${m.namespace}.${m.key}`),
+    ),
+  ];
+  return { product: keysFor("product"), variant: keysFor("variant") };
+}
+
+/**
+ * Find a metafield's value as plain text
+ * List metafields (JSON arrays) are joined with commas
+ */
+export function getMetafieldText(
+  metafields: { edges: Array<{ node: ShopifyMetafield }> } | undefined,
+  namespace: string,
+  key: string,
+): string | undefined {
+  const metafield = metafields?.edges.find(
+    (e) => e.node.namespace === namespace && e.node.key === key,
+  )?.node;
+  if (!metafield?.value) return undefined;
+
+  if (metafield.type.startsWith("list.")) {
+    try {
+      const values = JSON.parse(metafield.value);
+      if (Array.isArray(values)) {
+        return values.join(", ") || undefined;
+      }
+    } catch {
+      // Fall through to the raw value
+    }
+  }
+
+  return metafield.value.trim() || undefined;
+}
+
+/**
+ * Get all metafield mappings for a shop
+ */
+export async function getMetafieldMappings(
+  db: D1Database,
+  shop: string,
+): Promise<MetafieldMapping[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT id, shop, owner, namespace, key, feed_field FROM feed_metafield_mappings WHERE shop = ? ORDER BY feed_field, owner",
+    )
+    .bind(shop)
+    .all();
+
+  return results.map((row) => ({
+    id: row.id as number,
+    shop: row.shop as string,
+    owner: row.owner as MetafieldOwner,
+    namespace: row.namespace as string,
+    key: row.key as string,
+    feed_field: row.feed_field as MappableFeedField,
+  }));
+}
+
+/**
+ * Add or replace the mapping for a feed field and owner
+ */
+export async function saveMetafieldMapping(
+  db: D1Database,
+  shop: string,
+  mapping: Pick<MetafieldMapping, "owner" | "namespace" | "key" | "feed_field">,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR REPLACE INTO feed_metafield_mappings (shop, owner, namespace, key, feed_field)
+       VALUES (?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      shop,
+      mapping.owner,
+      mapping.namespace,
+      mapping.key,
+      mapping.feed_field,
+    )
+    .run();
+}
+
+/**
+ * Delete a metafield mapping
+ */
+export async function deleteMetafieldMapping(
+  db: D1Database,
+  shop: string,
+  id: number,
+): Promise<void> {
+  await db
+    .prepare("DELETE FROM feed_metafield_mappings WHERE id = ? AND shop = ?")
+    .bind(id, shop)
+    .run();
+}
@@ -0,0 +1,357 @@
+/**
+ * Feed Queue
+ * Runs feed generation as Cloudflare Queue jobs (Miniflare in local dev).
+ * Product webhooks are collected per shop and applied by one debounced job,
+ * failed jobs are retried with backoff, and jobs that keep failing are
+ * dead-lettered and listed in the admin.
+ */
+
+import type {
+  D1Database,
+  MessageBatch,
+  Queue,
+} from "@cloudflare/workers-types";
+import {
+  generateFeed,
+  applyProductChanges,
+  completeBulkFeedGeneration,
+  type FeedGenerationResult,
+} from "./feed-service.server";
+import {
+  trackFeedJob,
+  type FeedJobProgress,
+  type FeedJobTrigger,
+} from "./feed-jobs.server";
+
+export type FeedJob =
+  // Apply the shop's pending product changes
+  | { type: "changes"; shop: string }
+  // Generate the shop's feeds, refetching every product when full
+  | { type: "generate"; shop: string; full?: boolean; trigger: FeedJobTrigger }
+  // Generate the feed from a finished bulk operation
+  | { type: "bulk"; shop: string; operationId: string };
+
+export interface DeadFeedJob {
+  id: number;
+  job: FeedJob;
+  error: string | null;
+  attempts: number;
+  failedAt: number;
+}
+
+// Must match the dead letter queue in wrangler.jsonc
+export const DEAD_LETTER_QUEUE = "feed-jobs-dlq";
+
+// Webhooks arriving within this window are applied by the same job
+const DEBOUNCE_SECONDS = 30;
+// Attempts before a failing job is dead-lettered
+const MAX_ATTEMPTS = 5;
+// Delay before trying again a job that found another generation running
+const LOCKED_RETRY_SECONDS = 60;
+// Above this many updated products, one incremental generation is cheaper
+// than refetching each product
+const MAX_PATCHED_PRODUCTS = 50;
+
+// Pending changes older than this have lost their job, e.g. because it was
+// never sent, and are queued again by the cron trigger
+const STALE_CHANGES_MS = 60 * 60 * 1000;
+
+// Max statements per D1 batch when clearing changes
+const BATCH_SIZE = 100;
+
+/**
+ * Delay before retrying a job: 30s, 1m, 2m, 4m, ... capped at an hour
+ */
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(DEBOUNCE_SECONDS * 2 ** (attempts - 1), 3600);
+}
+
+/**
+ * Record a product change from a webhook and schedule a job to apply it
+ * Every change sends a delayed job; the first to run applies the whole
+ * burst and the others find nothing left to do
+ */
+export async function queueProductChange(
+  db: D1Database,
+  queue: Queue<FeedJob>,
+  shop: string,
+  productId: string,
+  removed: boolean,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR REPLACE INTO feed_pending_changes (shop, product_id, removed, changed_at)
+       VALUES (?, ?, ?, ?)`,
+    )
+    .bind(shop, productId, removed ? 1 : 0, Date.now())
+    .run();
+
+  await queue.send(
+    { type: "changes", shop },
+    { delaySeconds: DEBOUNCE_SECONDS },
+  );
+}
+
+/**
+ * Queue a job for every shop with changes left pending for too long
+ * Called from the cron trigger. Returns the number of shops queued.
+ */
+export async function requeueStaleChanges(
+  db: D1Database,
+  queue: Queue<FeedJob>,
+  now: number,
+): Promise<number> {
+  const { results } = await db
+    .prepare(
+      "SELECT DISTINCT shop FROM feed_pending_changes WHERE changed_at < ?",
+    )
+    .bind(now - STALE_CHANGES_MS)
+    .all();
+
+  for (let i = 0; i < results.length; i += BATCH_SIZE) {
+    await queue.sendBatch(
+      results.slice(i, i + BATCH_SIZE).map((row) => ({
+        body: { type: "changes", shop: row.shop as string },
+      })),
+    );
+  }
+
+  return results.length;
+}
+
+/**
+ * Apply a shop's pending product changes in one go
+ * Changes that arrive while the job runs are left for their own job
+ */
+async function applyPendingChanges(
+  db: D1Database,
+  shop: string,
+  admin: any,
+  results: Array<Record<string, unknown>>,
+  onProgress: FeedJobProgress,
+): Promise<FeedGenerationResult> {
+  const updated = results
+    .filter((row) => !row.removed)
+    .map((row) => row.product_id as string);
+  const removed = results
+    .filter((row) => row.removed)
+    .map((row) => row.product_id as string);
+
+  // Both run under the shop's job lock, so patches never overlap
+  const result =
+    updated.length > MAX_PATCHED_PRODUCTS
+      ? await generateFeed(db, shop, admin, {
+          removedProductIds: removed,
+          onProgress,
+        })
+      : await applyProductChanges(
+          db,
+          shop,
+          admin,
+          { updated, removed },
+          onProgress,
+        );
+  if (!result.success) return result;
+
+  // Clear the applied changes, keeping products changed again meanwhile
+  const statements = results.map((row) =>
+    db
+      .prepare(
+        "DELETE FROM feed_pending_changes WHERE shop = ? AND product_id = ? AND changed_at <= ?",
+      )
+      .bind(shop, row.product_id, row.changed_at),
+  );
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + BATCH_SIZE));
+  }
+
+  return result;
+}
+
+/**
+ * Run one feed job, throwing when it failed so it is retried
+ * Returns false without running it when another generation is running for
+ * the shop. The Admin API client is only created for jobs with work to do.
+ */
+async function runFeedJob(
+  db: D1Database,
+  getAdmin: (shop: string) => Promise<any>,
+  job: FeedJob,
+): Promise<boolean> {
+  let result: FeedGenerationResult | null;
+  switch (job.type) {
+    case "changes": {
+      const { results } = await db
+        .prepare(
+          "SELECT product_id, removed, changed_at FROM feed_pending_changes WHERE shop = ?",
+        )
+        .bind(job.shop)
+        .all();
+      // Already applied by an earlier job
+      if (results.length === 0) return true;
+
+      const admin = await getAdmin(job.shop);
+      result = await trackFeedJob(db, job.shop, "webhook", (onProgress) =>
+        applyPendingChanges(db, job.shop, admin, results, onProgress),
+      );
+      break;
+    }
+    case "generate": {
+      const admin = await getAdmin(job.shop);
+      result = await trackFeedJob(db, job.shop, job.trigger, (onProgress) =>
+        generateFeed(db, job.shop, admin, { full: job.full, onProgress }),
+      );
+      break;
+    }
+    case "bulk": {
+      const admin = await getAdmin(job.shop);
+      result = await trackFeedJob(db, job.shop, "webhook", (onProgress) =>
+        completeBulkFeedGeneration(
+          db,
+          job.shop,
+          admin,
+          job.operationId,
+          onProgress,
+        ),
+      );
+      break;
+    }
+  }
+
+  if (!result) return false;
+  if (!result.success) {
+    throw new Error(result.error || "Feed generation failed");
+  }
+  return true;
+}
+
+/**
+ * Record a job that kept failing so it shows up in the admin
+ * Its pending product changes are dropped; retrying regenerates the feed,
+ * which picks them up
+ */
+async function recordDeadFeedJob(
+  db: D1Database,
+  job: FeedJob,
+  error: string | null,
+  attempts: number,
+): Promise<void> {
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO feed_dead_jobs (shop, job, error, attempts, failed_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .bind(job.shop, JSON.stringify(job), error, attempts, Date.now()),
+    db
+      .prepare("DELETE FROM feed_pending_changes WHERE shop = ?")
+      .bind(job.shop),
+  ]);
+}
+
+/**
+ * Process a batch from the feed job queue
+ * Duplicate jobs in a batch run once; failures are retried with backoff
+ * until MAX_ATTEMPTS, then dead-lettered. Jobs waiting for another
+ * generation to finish are sent again, without using up an attempt.
+ */
+export async function processFeedJobs(
+  batch: MessageBatch<FeedJob>,
+  db: D1Database,
+  queue: Queue<FeedJob>,
+  getAdmin: (shop: string) => Promise<any>,
+): Promise<void> {
+  const seen = new Set<string>();
+
+  for (const message of batch.messages) {
+    const job = message.body;
+    const key = JSON.stringify(job);
+    if (seen.has(key)) {
+      message.ack();
+      continue;
+    }
+    seen.add(key);
+
+    try {
+      const ran = await runFeedJob(db, getAdmin, job);
+      if (!ran) {
+        console.log(
+          `[Queue] ${job.type} job for ${job.shop} waits for the running generation`,
+        );
+        await queue.send(job, { delaySeconds: LOCKED_RETRY_SECONDS });
+      }
+      message.ack();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      console.error(
+        `[Queue] ${job.type} job failed for ${job.shop} (attempt ${message.attempts}):`,
+        reason,
+      );
+
+      if (message.attempts >= MAX_ATTEMPTS) {
+        await recordDeadFeedJob(db, job, reason, message.attempts);
+        message.ack();
+      } else {
+        message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+      }
+    }
+  }
+}
+
+/**
+ * Process a batch from the dead letter queue
+ * Jobs only end up there when the consumer itself crashed or timed out on
+ * every attempt
+ */
+export async function processDeadFeedJobs(
+  batch: MessageBatch<FeedJob>,
+  db: D1Database,
+): Promise<void> {
+  for (const message of batch.messages) {
+    await recordDeadFeedJob(
+      db,
+      message.body,
+      "The job did not finish in time",
+      message.attempts,
+    );
+    message.ack();
+  }
+}
+
+/**
+ * List a shop's dead-lettered jobs, newest first
+ */
+export async function getDeadFeedJobs(
+  db: D1Database,
+  shop: string,
+): Promise<DeadFeedJob[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT id, job, error, attempts, failed_at FROM feed_dead_jobs WHERE shop = ? ORDER BY failed_at DESC LIMIT 20",
+    )
+    .bind(shop)
+    .all();
+
+  return results.map((row) => ({
+    id: row.id as number,
+    job: JSON.parse(row.job as string),
+    error: row.error as string | null,
+    attempts: row.attempts as number,
+    failedAt: row.failed_at as number,
+  }));
+}
+
+/**
+ * Clear a shop's dead-lettered jobs and queue a fresh generation instead
+ */
+export async function retryDeadFeedJobs(
+  db: D1Database,
+  queue: Queue<FeedJob>,
+  shop: string,
+): Promise<void> {
+  await db
+    .prepare("DELETE FROM feed_dead_jobs WHERE shop = ?")
+    .bind(shop)
+    .run();
+  await queue.send({ type: "generate", shop, trigger: "manual" });
+}
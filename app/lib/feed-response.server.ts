@@ -0,0 +1,86 @@
+/**
+ * Feed HTTP responses
+ * Shared by the public feed routes to serve cached JSONL feeds
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import { getCachedFeed, type FeedKey } from "./feed-service.server";
+
+/**
+ * Serve a shop's cached feed as JSONL
+ * Supports gzip compression via Accept-Encoding header.
+ */
+export async function serveCachedFeed(
+  request: Request,
+  db: D1Database,
+  shopSlug: string | undefined,
+  key: FeedKey = {},
+): Promise<Response> {
+  if (!shopSlug) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  // Reconstruct the Shopify domain from the slug
+  const shop = `${shopSlug}.myshopify.com`;
+
+  try {
+    const feed = await getCachedFeed(db, shop, key);
+
+    if (!feed) {
+      return new Response("Feed not found. Generate the feed first.", {
+        status: 404,
+        headers: { "Content-Type": "text/plain" },
+      });
+    }
+
+    const generatedAt = new Date(feed.generatedAt).toUTCString();
+
+    // Check if the client accepts gzip
+    const acceptEncoding = request.headers.get("Accept-Encoding") || "";
+    const supportsGzip = acceptEncoding.includes("gzip");
+
+    if (supportsGzip) {
+      // Compress the feed with gzip using the Web API CompressionStream
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(feed.feedData));
+          controller.close();
+        },
+      });
+
+      const compressedStream = stream.pipeThrough(
+        new CompressionStream("gzip"),
+      );
+
+      return new Response(compressedStream, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/jsonl",
+          "Content-Encoding": "gzip",
+          "Content-Disposition": "inline; filename=products.jsonl.gz",
+          "Last-Modified": generatedAt,
+          "Cache-Control": "public, max-age=3600",
+          "Access-Control-Allow-Origin": "*",
+          "X-Product-Count": String(feed.productCount),
+        },
+      });
+    }
+
+    // Return uncompressed
+    return new Response(feed.feedData, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/jsonl",
+        "Content-Disposition": "inline; filename=products.jsonl",
+        "Last-Modified": generatedAt,
+        "Cache-Control": "public, max-age=3600",
+        "Access-Control-Allow-Origin": "*",
+        "X-Product-Count": String(feed.productCount),
+      },
+    });
+  } catch (error) {
+    console.error(`[Feed] Error serving feed for ${shop}:`, error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Product Reviews
+ * Reads review ratings and counts from product metafields, either Shopify's
+ * standard reviews.* metafields or a review app's own namespace
+ */
+
+import type { ShopifyProduct } from "./shopify-products.server";
+import { getMetafieldText } from "./feed-metafields.server";
+
+// The feed's rating scale
+const FEED_RATING_MAX = 5;
+
+export interface ReviewSettings {
+  review_rating_metafield: string | null;
+  review_count_metafield: string | null;
+  review_rating_scale: number;
+}
+
+/**
+ * Read a "namespace.key" product metafield
+ */
+function getProductMetafield(
+  product: ShopifyProduct,
+  identifier: string,
+): string | undefined {
+  const [namespace, key] = identifier.split(".");
+  return getMetafieldText(product.metafields, namespace, key);
+}
+
+/**
+ * Parse a rating, normalized to the feed's 0-5 scale
+ * Rating metafields are JSON with their own scale_max; plain numbers use
+ * the shop's configured scale
+ */
+function parseRating(value: string, defaultScale: number): number | undefined {
+  let rating = Number(value);
+  let scaleMax = defaultScale;
+
+  if (value.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(value);
+      rating = Number(parsed.value);
+      scaleMax = Number(parsed.scale_max) || defaultScale;
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (isNaN(rating) || rating < 0 || scaleMax <= 0) return undefined;
+
+  const normalized = (rating / scaleMax) * FEED_RATING_MAX;
+  return Math.round(Math.min(normalized, FEED_RATING_MAX) * 10) / 10;
+}
+
+/**
+ * Get the "namespace.key" review metafields to fetch
+ */
+export function getReviewMetafieldKeys(settings: ReviewSettings): string[] {
+  return [
+    settings.review_rating_metafield,
+    settings.review_count_metafield,
+  ].filter((key): key is string => Boolean(key));
+}
+
+/**
+ * Build the review fields for a product
+ * Products without reviews get neither field
+ */
+export function getReviewFields(
+  product: ShopifyProduct,
+  settings: ReviewSettings,
+): { product_review_rating?: number; product_review_count?: number } {
+  const countValue = settings.review_count_metafield
+    ? getProductMetafield(product, settings.review_count_metafield)
+    : undefined;
+  const count = countValue ? parseInt(countValue, 10) : NaN;
+  if (!isNaN(count) && count <= 0) return {};
+
+  const ratingValue = settings.review_rating_metafield
+    ? getProductMetafield(product, settings.review_rating_metafield)
+    : undefined;
+  const rating = ratingValue
+    ? parseRating(ratingValue, settings.review_rating_scale)
+    : undefined;
+
+  return {
+    ...(rating !== undefined && { product_review_rating: rating }),
+    ...(!isNaN(count) && { product_review_count: count }),
+  };
+}
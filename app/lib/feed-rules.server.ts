@@ -0,0 +1,318 @@
+/**
+ * Feed Rules
+ * Per-shop include/exclude rules that decide which variants reach the feed
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { ShopifyProduct, ShopifyVariant } from "./shopify-products.server";
+
+export type FeedRuleAction = "include" | "exclude";
+
+export type FeedRuleField =
+  | "tag"
+  | "vendor"
+  | "product_type"
+  | "collection"
+  | "price"
+  | "sku"
+  | "inventory";
+
+export type FeedRuleOperator =
+  | "equals"
+  | "contains"
+  | "matches"
+  | "gte"
+  | "lte"
+  | "between";
+
+export interface FeedRule {
+  id: number;
+  shop: string;
+  position: number;
+  action: FeedRuleAction;
+  field: FeedRuleField;
+  operator: FeedRuleOperator;
+  value: string;
+  enabled: boolean;
+  excluded_count: number;
+  last_evaluated_at: number | null;
+}
+
+export const RULE_FIELDS: Record<FeedRuleField, string> = {
+  tag: "Tag",
+  vendor: "Vendor",
+  product_type: "Product type",
+  collection: "Collection",
+  price: "Price",
+  sku: "SKU",
+  inventory: "Inventory",
+};
+
+export const RULE_OPERATORS: Record<FeedRuleOperator, string> = {
+  equals: "is",
+  contains: "contains",
+  matches: "matches pattern",
+  gte: "is at least",
+  lte: "is at most",
+  between: "is between",
+};
+
+const NUMERIC_FIELDS: FeedRuleField[] = ["price", "inventory"];
+const NUMERIC_OPERATORS: FeedRuleOperator[] = ["gte", "lte", "between"];
+
+/**
+ * Check that an operator can be used with a field
+ * Price and inventory take numeric operators, everything else text operators
+ */
+export function isValidRuleOperator(
+  field: FeedRuleField,
+  operator: FeedRuleOperator,
+): boolean {
+  return (
+    NUMERIC_FIELDS.includes(field) === NUMERIC_OPERATORS.includes(operator)
+  );
+}
+
+/**
+ * Check that a numeric operator's value can be compared against
+ * "between" takes exactly two numbers, the others one; text operators
+ * accept any value
+ */
+export function isValidRuleValue(
+  operator: FeedRuleOperator,
+  value: string,
+): boolean {
+  if (!NUMERIC_OPERATORS.includes(operator)) return true;
+
+  const bounds = value.split(",").map((v) => v.trim());
+  return (
+    bounds.length === (operator === "between" ? 2 : 1) &&
+    bounds.every((v) => v !== "" && Number.isFinite(Number(v)))
+  );
+}
+
+/**
+ * Convert a glob pattern (e.g. "TSHIRT-*") to a case-insensitive RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Split a comma-separated rule value into its alternatives
+ */
+function splitRuleValue(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Collect the text values a rule field refers to
+ */
+function getTextValues(
+  field: FeedRuleField,
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+): string[] {
+  switch (field) {
+    case "tag":
+      return product.tags;
+    case "vendor":
+      return [product.vendor];
+    case "product_type":
+      return [product.productType];
+    case "collection":
+      return product.collections.edges.flatMap((e) => [
+        e.node.handle,
+        e.node.title,
+      ]);
+    case "sku":
+      return variant.sku ? [variant.sku] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the numeric value a rule field refers to
+ */
+function getNumericValue(
+  field: FeedRuleField,
+  variant: ShopifyVariant,
+): number {
+  if (field === "price") {
+    return parseFloat(variant.price);
+  }
+  return variant.inventoryQuantity ?? 0;
+}
+
+/**
+ * Check whether a product/variant matches a rule's condition
+ */
+export function ruleMatches(
+  rule: Pick<FeedRule, "field" | "operator" | "value">,
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+): boolean {
+  if (NUMERIC_OPERATORS.includes(rule.operator)) {
+    const actual = getNumericValue(rule.field, variant);
+    const bounds = rule.value.split(",").map((v) => parseFloat(v));
+
+    switch (rule.operator) {
+      case "gte":
+        return actual >= bounds[0];
+      case "lte":
+        return actual <= bounds[0];
+      case "between":
+        return actual >= bounds[0] && actual <= bounds[1];
+    }
+  }
+
+  const actual = getTextValues(rule.field, product, variant).map((v) =>
+    v.toLowerCase(),
+  );
+  const expected = splitRuleValue(rule.value);
+
+  return expected.some((exp) => {
+    switch (rule.operator) {
+      case "equals":
+        return actual.includes(exp);
+      case "contains":
+        return actual.some((v) => v.includes(exp));
+      case "matches":
+        return actual.some((v) => globToRegExp(exp).test(v));
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Find the first rule (by position) that removes a variant from the feed
+ * Include rules remove variants that don't match, exclude rules remove variants that do
+ */
+export function findRemovingRule(
+  rules: FeedRule[],
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+): FeedRule | null {
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const matches = ruleMatches(rule, product, variant);
+    if (rule.action === "include" ? !matches : matches) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a D1 row to a FeedRule
+ */
+function rowToRule(row: Record<string, unknown>): FeedRule {
+  return {
+    id: row.id as number,
+    shop: row.shop as string,
+    position: row.position as number,
+    action: row.action as FeedRuleAction,
+    field: row.field as FeedRuleField,
+    operator: row.operator as FeedRuleOperator,
+    value: row.value as string,
+    enabled: Boolean(row.enabled),
+    excluded_count: (row.excluded_count as number) || 0,
+    last_evaluated_at: row.last_evaluated_at as number | null,
+  };
+}
+
+/**
+ * Get all rules for a shop, ordered by position
+ */
+export async function getFeedRules(
+  db: D1Database,
+  shop: string,
+): Promise<FeedRule[]> {
+  const { results } = await db
+    .prepare("SELECT * FROM feed_rules WHERE shop = ? ORDER BY position, id")
+    .bind(shop)
+    .all();
+
+  return results.map(rowToRule);
+}
+
+/**
+ * Add a rule at the end of a shop's rule list
+ */
+export async function createFeedRule(
+  db: D1Database,
+  shop: string,
+  rule: Pick<FeedRule, "action" | "field" | "operator" | "value">,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO feed_rules (shop, position, action, field, operator, value)
+       VALUES (?, (SELECT COALESCE(MAX(position), 0) + 1 FROM feed_rules WHERE shop = ?), ?, ?, ?, ?)`,
+    )
+    .bind(shop, shop, rule.action, rule.field, rule.operator, rule.value)
+    .run();
+}
+
+/**
+ * Enable or disable a rule
+ */
+export async function setFeedRuleEnabled(
+  db: D1Database,
+  shop: string,
+  id: number,
+  enabled: boolean,
+): Promise<void> {
+  await db
+    .prepare(
+      "UPDATE feed_rules SET enabled = ?, updated_at = ? WHERE id = ? AND shop = ?",
+    )
+    .bind(enabled ? 1 : 0, Date.now(), id, shop)
+    .run();
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteFeedRule(
+  db: D1Database,
+  shop: string,
+  id: number,
+): Promise<void> {
+  await db
+    .prepare("DELETE FROM feed_rules WHERE id = ? AND shop = ?")
+    .bind(id, shop)
+    .run();
+}
+
+/**
+ * Store how many variants each rule removed during the last generation
+ */
+export async function recordRuleExclusions(
+  db: D1Database,
+  shop: string,
+  rules: FeedRule[],
+  exclusions: Record<number, number>,
+): Promise<void> {
+  if (rules.length === 0) return;
+
+  const now = Date.now();
+  await db.batch(
+    rules.map((rule) =>
+      db
+        .prepare(
+          "UPDATE feed_rules SET excluded_count = ?, last_evaluated_at = ? WHERE id = ? AND shop = ?",
+        )
+        .bind(exclusions[rule.id] || 0, now, rule.id, shop),
+    ),
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Feed Schedule
+ * Regenerates every installed shop's feeds on the shop's chosen interval, so
+ * changes no webhook reports (inventory, metafields, price rules) still reach
+ * the feed. The cron trigger runs hourly and queues the shops that are due.
+ */
+
+import type { D1Database, Queue } from "@cloudflare/workers-types";
+import type { FeedJob } from "./feed-queue.server";
+import type { FeedJobStatus } from "./feed-jobs.server";
+
+export type RegenerationInterval = "hourly" | "6h" | "daily";
+
+export const REGENERATION_INTERVALS: Record<RegenerationInterval, string> = {
+  hourly: "Every hour",
+  "6h": "Every 6 hours",
+  daily: "Every day",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const INTERVAL_MS: Record<RegenerationInterval, number> = {
+  hourly: HOUR_MS,
+  "6h": 6 * HOUR_MS,
+  daily: 24 * HOUR_MS,
+};
+
+// Cron runs start a little late; shops this close to due are queued anyway
+// so they don't slip to the next run
+const DUE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Delay between queued shops, so they don't all hit the Admin API at once
+const STAGGER_SECONDS = 30;
+// Longest delay a queue message accepts
+const MAX_DELAY_SECONDS = 12 * 60 * 60;
+
+// Max statements per D1 batch when recording runs
+const BATCH_SIZE = 100;
+
+/**
+ * Queue a regeneration for every shop whose interval has passed
+ * generateFeed decides whether it needs a full rebuild. Only shops with a
+ * generated feed are included. Shops are due an interval after they were
+ * last queued, so a job still waiting in the queue isn't queued twice.
+ * Returns the number of shops queued.
+ */
+export async function scheduleFeedRegenerations(
+  db: D1Database,
+  queue: Queue<FeedJob>,
+  now: number,
+): Promise<number> {
+  const { results } = await db
+    .prepare(
+      `SELECT s.shop, s.regeneration_interval, s.scheduled_at FROM feed_settings s
+       WHERE EXISTS (SELECT 1 FROM feed_cache c WHERE c.shop = s.shop)
+       ORDER BY s.scheduled_at IS NOT NULL, s.scheduled_at`,
+    )
+    .all();
+
+  const due = results
+    .filter((row) => {
+      const interval =
+        INTERVAL_MS[row.regeneration_interval as RegenerationInterval] ||
+        INTERVAL_MS.daily;
+      const scheduledAt = row.scheduled_at as number | null;
+      return !scheduledAt || now - scheduledAt >= interval - DUE_TOLERANCE_MS;
+    })
+    .map((row) => row.shop as string);
+
+  for (let i = 0; i < due.length; i += BATCH_SIZE) {
+    const shops = due.slice(i, i + BATCH_SIZE);
+    await queue.sendBatch(
+      shops.map((shop, index) => ({
+        body: { type: "generate", shop, trigger: "cron" },
+        delaySeconds: Math.min(
+          (i + index) * STAGGER_SECONDS,
+          MAX_DELAY_SECONDS,
+        ),
+      })),
+    );
+    await db.batch(
+      shops.map((shop) =>
+        db
+          .prepare("UPDATE feed_settings SET scheduled_at = ? WHERE shop = ?")
+          .bind(now, shop),
+      ),
+    );
+  }
+
+  return due.length;
+}
+
+/**
+ * The last regeneration the cron trigger ran for a shop and how it ended
+ * Read from the job history, so a queued run only counts once it finished
+ */
+export async function getLastScheduledRun(
+  db: D1Database,
+  shop: string,
+): Promise<{ finishedAt: number; status: FeedJobStatus } | null> {
+  const row = await db
+    .prepare(
+      "SELECT status, finished_at FROM feed_jobs WHERE shop = ? AND trigger = 'cron' AND status != 'running' ORDER BY id DESC LIMIT 1",
+    )
+    .bind(shop)
+    .first();
+
+  return row
+    ? {
+        finishedAt: row.finished_at as number,
+        status: row.status as FeedJobStatus,
+      }
+    : null;
+}
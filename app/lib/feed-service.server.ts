@@ -8,12 +8,82 @@ import {
   fetchAllProducts,
   fetchShopInfo,
   fetchShopPolicies,
+  fetchMarkets,
+  fetchAlternateLocales,
+  fetchProductTranslations,
+  fetchPublications,
+  resolvePublicationId,
+  type ProductExtraPages,
+  type ProductFetchOptions,
+  type ShopMarket,
+  type ShopInfo,
+  type ShopifyProduct,
 } from "./shopify-products.server";
+import {
+  BULK_VARIANT_THRESHOLD,
+  fetchCatalogSize,
+  startBulkProductFetch,
+  fetchBulkOperation,
+  streamBulkProducts,
+  selectMarketPricing,
+} from "./shopify-bulk.server";
 import {
   mapProductsToFeed,
+  createFeedMapper,
+  extractShopifyId,
   feedItemsToJsonl,
+  jsonlToFeedItems,
+  createMapReport,
+  type FeedMapOptions,
+  type FeedMapper,
+  type FeedMapReport,
   type FeedSettings,
+  type FeedAvailability,
+  type OpenAIFeedItem,
 } from "./feed-mapper.server";
+import {
+  getFeedRules,
+  recordRuleExclusions,
+  type FeedRule,
+} from "./feed-rules.server";
+import {
+  getMetafieldMappings,
+  getMetafieldKeys,
+} from "./feed-metafields.server";
+import { saveFeedIssues, patchFeedIssues } from "./feed-issues.server";
+import { getTemplateMetafieldKeys } from "./feed-templates.server";
+import { getReviewMetafieldKeys } from "./feed-reviews.server";
+import {
+  getItemIdMap,
+  saveItemIds,
+  releaseItemIds,
+  type ItemIdStrategy,
+} from "./feed-item-ids.server";
+import { applyTombstones } from "./feed-tombstones.server";
+import { FEED_IMAGE_SIZE } from "./feed-media.server";
+import { selectLocaleTranslations } from "./feed-translations.server";
+import type { RegenerationInterval } from "./feed-schedule.server";
+import type { FeedJobProgress, FeedJobStats } from "./feed-jobs.server";
+import {
+  getFeedItems,
+  patchFeedItems,
+  replaceFeedItems,
+} from "./feed-items.server";
+import {
+  getBulkOperation,
+  isBulkOperationRunning,
+  saveBulkOperation,
+  finishBulkOperation,
+} from "./feed-bulk-operations.server";
+import {
+  getCategoryMappings,
+  buildCategoryLookup,
+} from "./feed-categories.server";
+import {
+  fetchShippingProfiles,
+  getShippingOverrides,
+  resolveDeliveryEstimates,
+} from "./feed-shipping.server";
 
 /**
  * Get or create feed settings for a shop
@@ -42,6 +112,32 @@ export async function getFeedSettings(
       accepts_exchanges: Boolean(row.accepts_exchanges),
       store_country: (row.store_country as string) || "US",
       target_countries: (row.target_countries as string) || "US",
+      enable_market_feeds: Boolean(row.enable_market_feeds),
+      enable_locale_feeds: Boolean(row.enable_locale_feeds),
+      shipping_handling_days: (row.shipping_handling_days as number) ?? 1,
+      title_template: row.title_template as string | null,
+      description_template: row.description_template as string | null,
+      preorder_tag: row.preorder_tag as string | null,
+      preorder_metafield: row.preorder_metafield as string | null,
+      availability_date_metafield: row.availability_date_metafield as
+        | string
+        | null,
+      oversold_availability:
+        (row.oversold_availability as FeedAvailability) || "backorder",
+      safety_stock: (row.safety_stock as number) || 0,
+      inventory_location_ids: row.inventory_location_ids
+        ? JSON.parse(row.inventory_location_ids as string)
+        : null,
+      review_rating_metafield: row.review_rating_metafield as string | null,
+      review_count_metafield: row.review_count_metafield as string | null,
+      review_rating_scale: (row.review_rating_scale as number) || 5,
+      image_min_resolution: (row.image_min_resolution as number) || 0,
+      item_id_strategy: (row.item_id_strategy as ItemIdStrategy) || "sku",
+      unit_pricing_metafield: row.unit_pricing_metafield as string | null,
+      tombstone_grace_days: (row.tombstone_grace_days as number) ?? 7,
+      publication_id: row.publication_id as string | null,
+      regeneration_interval:
+        (row.regeneration_interval as RegenerationInterval) || "daily",
     };
   }
 
@@ -68,6 +164,26 @@ export async function getFeedSettings(
     accepts_exchanges: true,
     store_country: "US",
     target_countries: "US",
+    enable_market_feeds: false,
+    enable_locale_feeds: false,
+    shipping_handling_days: 1,
+    title_template: null,
+    description_template: null,
+    preorder_tag: null,
+    preorder_metafield: null,
+    availability_date_metafield: null,
+    oversold_availability: "backorder",
+    safety_stock: 0,
+    inventory_location_ids: null,
+    review_rating_metafield: "reviews.rating",
+    review_count_metafield: "reviews.rating_count",
+    review_rating_scale: 5,
+    image_min_resolution: 0,
+    item_id_strategy: "sku",
+    unit_pricing_metafield: null,
+    tombstone_grace_days: 7,
+    publication_id: null,
+    regeneration_interval: "daily",
   };
 }
 
@@ -133,6 +249,90 @@ export async function updateFeedSettings(
     fields.push("target_countries = ?");
     values.push(updates.target_countries);
   }
+  if (updates.enable_market_feeds !== undefined) {
+    fields.push("enable_market_feeds = ?");
+    values.push(updates.enable_market_feeds ? 1 : 0);
+  }
+  if (updates.enable_locale_feeds !== undefined) {
+    fields.push("enable_locale_feeds = ?");
+    values.push(updates.enable_locale_feeds ? 1 : 0);
+  }
+  if (updates.shipping_handling_days !== undefined) {
+    fields.push("shipping_handling_days = ?");
+    values.push(updates.shipping_handling_days);
+  }
+  if (updates.title_template !== undefined) {
+    fields.push("title_template = ?");
+    values.push(updates.title_template);
+  }
+  if (updates.description_template !== undefined) {
+    fields.push("description_template = ?");
+    values.push(updates.description_template);
+  }
+  if (updates.preorder_tag !== undefined) {
+    fields.push("preorder_tag = ?");
+    values.push(updates.preorder_tag);
+  }
+  if (updates.preorder_metafield !== undefined) {
+    fields.push("preorder_metafield = ?");
+    values.push(updates.preorder_metafield);
+  }
+  if (updates.availability_date_metafield !== undefined) {
+    fields.push("availability_date_metafield = ?");
+    values.push(updates.availability_date_metafield);
+  }
+  if (updates.oversold_availability !== undefined) {
+    fields.push("oversold_availability = ?");
+    values.push(updates.oversold_availability);
+  }
+  if (updates.safety_stock !== undefined) {
+    fields.push("safety_stock = ?");
+    values.push(updates.safety_stock);
+  }
+  if (updates.inventory_location_ids !== undefined) {
+    fields.push("inventory_location_ids = ?");
+    values.push(
+      updates.inventory_location_ids
+        ? JSON.stringify(updates.inventory_location_ids)
+        : null,
+    );
+  }
+  if (updates.review_rating_metafield !== undefined) {
+    fields.push("review_rating_metafield = ?");
+    values.push(updates.review_rating_metafield);
+  }
+  if (updates.review_count_metafield !== undefined) {
+    fields.push("review_count_metafield = ?");
+    values.push(updates.review_count_metafield);
+  }
+  if (updates.review_rating_scale !== undefined) {
+    fields.push("review_rating_scale = ?");
+    values.push(updates.review_rating_scale);
+  }
+  if (updates.image_min_resolution !== undefined) {
+    fields.push("image_min_resolution = ?");
+    values.push(updates.image_min_resolution);
+  }
+  if (updates.item_id_strategy !== undefined) {
+    fields.push("item_id_strategy = ?");
+    values.push(updates.item_id_strategy);
+  }
+  if (updates.unit_pricing_metafield !== undefined) {
+    fields.push("unit_pricing_metafield = ?");
+    values.push(updates.unit_pricing_metafield);
+  }
+  if (updates.tombstone_grace_days !== undefined) {
+    fields.push("tombstone_grace_days = ?");
+    values.push(updates.tombstone_grace_days);
+  }
+  if (updates.publication_id !== undefined) {
+    fields.push("publication_id = ?");
+    values.push(updates.publication_id);
+  }
+  if (updates.regeneration_interval !== undefined) {
+    fields.push("regeneration_interval = ?");
+    values.push(updates.regeneration_interval);
+  }
 
   if (fields.length === 0) return;
 
@@ -184,59 +384,834 @@ export async function autoPopulateSettings(
   return getFeedSettings(db, shop);
 }
 
+/**
+ * Identifies one of a shop's feeds
+ * The primary feed has neither a country nor a locale
+ */
+export interface FeedKey {
+  country?: string;
+  locale?: string;
+}
+
+/**
+ * Store a generated feed in the cache
+ * Items removed since the previous generation stay listed as tombstones
+ * for the shop's grace period. Delivery estimates are dated from generatedAt.
+ */
+async function storeFeed(
+  db: D1Database,
+  shop: string,
+  feed: Pick<FeedTarget, "key" | "currencyCode" | "countries">,
+  feedItems: OpenAIFeedItem[],
+  generatedAt: number,
+  tombstoneGraceDays: number,
+): Promise<void> {
+  const { key } = feed;
+  const previous = await getCachedFeed(db, shop, key);
+  const storedItems = await applyTombstones(
+    db,
+    shop,
+    key,
+    resolveDeliveryEstimates(feedItems, generatedAt),
+    previous ? jsonlToFeedItems(previous.feedData) : [],
+    tombstoneGraceDays,
+    generatedAt,
+  );
+
+  await db
+    .prepare(
+      `INSERT OR REPLACE INTO feed_cache (shop, country, locale, market_countries, currency_code, feed_data, product_count, generated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      shop,
+      key.country || "",
+      key.locale || "",
+      feed.countries ? JSON.stringify(feed.countries) : null,
+      feed.currencyCode,
+      feedItemsToJsonl(storedItems),
+      storedItems.length,
+      generatedAt,
+    )
+    .run();
+}
+
+// Full rebuilds catch what incremental runs miss, like deleted products and
+// price list changes
+const FULL_REBUILD_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Products updated shortly before the last sync are fetched again, in case
+// Shopify's search index was lagging behind
+const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+// Bulk results report fetch progress every this many products
+const STREAM_PROGRESS_INTERVAL = 250;
+
+/**
+ * Everything needed to fetch and map a shop's products
+ */
+interface FeedGenerationContext {
+  shopInfo: ShopInfo;
+  settings: FeedSettings;
+  rules: FeedRule[];
+  itemIds: Record<string, string>;
+  fetchOptions: ProductFetchOptions;
+  mapOptions: FeedMapOptions;
+  // Empty when market or locale feeds are off
+  markets: ShopMarket[];
+  locales: string[];
+}
+
+/**
+ * One feed to generate: the primary feed, a market or a language
+ */
+interface FeedTarget {
+  key: FeedKey;
+  currencyCode: string;
+  // A market feed's countries, all served by the feed
+  countries?: string[];
+  fetchOptions: ProductFetchOptions;
+  mapOptions: FeedMapOptions;
+}
+
+/**
+ * A mapped market or language feed
+ */
+interface SecondaryFeed {
+  target: FeedTarget;
+  items: OpenAIFeedItem[];
+}
+
+/**
+ * Products to refresh in a feed: those updated after a time or the given
+ * ones. Removed products are dropped without fetching.
+ */
+interface ProductChanges {
+  updatedAfter?: number;
+  productIds?: string[];
+  removedProductIds?: string[];
+}
+
+/**
+ * What the last generation was based on
+ */
+interface GenerationState {
+  productsSyncedAt: number | null;
+  fullRebuildAt: number | null;
+  fingerprint: string | null;
+}
+
+export interface FeedGenerationResult {
+  success: boolean;
+  productCount: number;
+  // Set when a bulk operation was started and the feed is generated when it
+  // finishes
+  pending?: boolean;
+  error?: string;
+  // What the run fetched and mapped for the primary feed
+  stats?: FeedJobStats;
+}
+
+/**
+ * Load a shop's settings, rules and mappings and build the fetch and map
+ * options for generating its feeds
+ */
+async function loadGenerationContext(
+  db: D1Database,
+  shop: string,
+  admin: any,
+): Promise<FeedGenerationContext> {
+  // Fetch shop info, settings, rules, mappings, shipping, item IDs and
+  // publications in parallel
+  const [
+    shopInfo,
+    settings,
+    rules,
+    metafieldMappings,
+    categoryMappings,
+    shippingProfiles,
+    shippingOverrides,
+    itemIds,
+    publications,
+  ] = await Promise.all([
+    fetchShopInfo(admin),
+    getFeedSettings(db, shop),
+    getFeedRules(db, shop),
+    getMetafieldMappings(db, shop),
+    getCategoryMappings(db, shop),
+    fetchShippingProfiles(admin),
+    getShippingOverrides(db, shop),
+    getItemIdMap(db, shop),
+    fetchPublications(admin),
+  ]);
+
+  // Fetch the metafields that are mapped to feed fields, used in templates,
+  // drive availability, hold reviews or override unit pricing
+  const metafieldKeys = getMetafieldKeys(metafieldMappings);
+  const templateKeys = getTemplateMetafieldKeys([
+    settings.title_template,
+    settings.description_template,
+  ]);
+  const availabilityKeys = [
+    settings.preorder_metafield,
+    settings.availability_date_metafield,
+  ].filter((key): key is string => Boolean(key));
+  const fetchOptions = {
+    productMetafieldKeys: [
+      ...new Set([
+        ...metafieldKeys.product,
+        ...templateKeys.product,
+        ...availabilityKeys,
+        ...getReviewMetafieldKeys(settings),
+        ...(settings.unit_pricing_metafield
+          ? [settings.unit_pricing_metafield]
+          : []),
+      ]),
+    ],
+    variantMetafieldKeys: [
+      ...new Set([
+        ...metafieldKeys.variant,
+        ...templateKeys.variant,
+        ...availabilityKeys,
+      ]),
+    ],
+    // Per-location stock is only needed when the shop limits locations
+    inventoryLocationIds: settings.inventory_location_ids ?? undefined,
+    imageSize: FEED_IMAGE_SIZE,
+    // Only products published to this sales channel are listed
+    publicationId: resolvePublicationId(publications, settings.publication_id),
+  };
+
+  // Map with the shop's rules, metafield mappings and shipping
+  const mapOptions = {
+    rules,
+    metafieldMappings,
+    categoryLookup: buildCategoryLookup(categoryMappings),
+    shipping: {
+      profiles: shippingProfiles,
+      overrides: shippingOverrides,
+      currencyCode: shopInfo.currencyCode,
+      handlingDays: settings.shipping_handling_days,
+    },
+    itemIds,
+  };
+
+  // Markets and languages that get their own feed
+  const [markets, locales] = await Promise.all([
+    settings.enable_market_feeds ? fetchMarkets(admin) : [],
+    settings.enable_locale_feeds ? fetchAlternateLocales(admin) : [],
+  ]);
+
+  return {
+    shopInfo,
+    settings,
+    rules,
+    itemIds,
+    fetchOptions,
+    mapOptions,
+    markets,
+    locales,
+  };
+}
+
+/**
+ * The market and language feeds to generate next to the primary feed
+ */
+function getSecondaryFeedTargets(context: FeedGenerationContext): FeedTarget[] {
+  const { shopInfo, fetchOptions, mapOptions } = context;
+  const targets: FeedTarget[] = [];
+
+  // One feed per market, priced in the market's currency for its first
+  // country. Prices rarely differ between a market's countries, and
+  // fetching the catalog once per country doesn't scale.
+  for (const market of context.markets) {
+    targets.push({
+      key: { country: market.country },
+      currencyCode: market.currencyCode,
+      countries: market.countries,
+      fetchOptions: { ...fetchOptions, country: market.country },
+      mapOptions: { ...mapOptions, market },
+    });
+  }
+
+  // One feed per published language, falling back to the default
+  // language where a translation is missing
+  for (const locale of context.locales) {
+    targets.push({
+      key: { locale },
+      currencyCode: shopInfo.currencyCode,
+      fetchOptions: { ...fetchOptions, locale },
+      mapOptions: { ...mapOptions, locale },
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Hash everything that shapes the feed besides the products themselves
+ * Rule statistics and item IDs are left out since generation updates them,
+ * and the regeneration interval since it doesn't change the feed
+ */
+async function fingerprintContext(
+  context: FeedGenerationContext,
+): Promise<string> {
+  const { itemIds, rules, ...mapOptions } = context.mapOptions;
+  const { regeneration_interval, ...settings } = context.settings;
+  const config = JSON.stringify(
+    {
+      shopInfo: context.shopInfo,
+      settings,
+      rules: context.rules.map(
+        ({ excluded_count, last_evaluated_at, ...rule }) => rule,
+      ),
+      fetchOptions: context.fetchOptions,
+      mapOptions,
+      markets: context.markets,
+      locales: context.locales,
+    },
+    // Sets, like the products of a shipping profile, would otherwise
+    // serialize as {}
+    (_key, value) => (value instanceof Set ? [...value].sort() : value),
+  );
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(config),
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Get what a shop's last generation was based on
+ */
+async function getGenerationState(
+  db: D1Database,
+  shop: string,
+): Promise<GenerationState> {
+  const row = await db
+    .prepare(
+      "SELECT products_synced_at, full_rebuild_at, generation_fingerprint FROM feed_settings WHERE shop = ?",
+    )
+    .bind(shop)
+    .first();
+
+  return {
+    productsSyncedAt: (row?.products_synced_at as number | null) ?? null,
+    fullRebuildAt: (row?.full_rebuild_at as number | null) ?? null,
+    fingerprint: (row?.generation_fingerprint as string | null) ?? null,
+  };
+}
+
+/**
+ * Record a finished generation on the shop's settings
+ * syncedAt is when its products were fetched, null when only some products
+ * were; full rebuilds also reset the rebuild interval
+ */
+async function recordGeneration(
+  db: D1Database,
+  shop: string,
+  generation: {
+    generatedAt: number;
+    productCount: number;
+    syncedAt: number | null;
+    fingerprint: string;
+    full: boolean;
+  },
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE feed_settings SET feed_generated_at = ?, product_count = ?, products_synced_at = COALESCE(?, products_synced_at),
+         full_rebuild_at = COALESCE(?, full_rebuild_at), generation_fingerprint = ?, updated_at = ?
+       WHERE shop = ?`,
+    )
+    .bind(
+      generation.generatedAt,
+      generation.productCount,
+      generation.syncedAt,
+      generation.full ? generation.syncedAt : null,
+      generation.fingerprint,
+      generation.generatedAt,
+      shop,
+    )
+    .run();
+}
+
+/**
+ * Store a fully generated primary feed and its market and language feeds,
+ * and record the generation's rule exclusions and issues
+ */
+async function storeFullFeeds(
+  db: D1Database,
+  shop: string,
+  context: FeedGenerationContext,
+  feedItems: OpenAIFeedItem[],
+  report: FeedMapReport,
+  secondaryFeeds: AsyncIterable<SecondaryFeed>,
+  sync: { syncedAt: number; fingerprint: string },
+  onProgress?: FeedJobProgress,
+): Promise<void> {
+  const { shopInfo, settings, rules, itemIds } = context;
+  await onProgress?.("storing");
+
+  // Keep new item IDs so they survive SKU edits, and reuse them for the
+  // market and language feeds. A full rebuild sees every variant, so the
+  // IDs of deleted ones are released.
+  await saveItemIds(db, shop, report.newItemIds);
+  Object.assign(itemIds, report.newItemIds);
+  const released = await releaseItemIds(db, shop, itemIds, report.variantIds);
+  for (const variantId of released) delete itemIds[variantId];
+
+  // Store the primary feed in cache
+  const now = Date.now();
+  await replaceFeedItems(db, shop, {}, feedItems);
+  await storeFeed(
+    db,
+    shop,
+    { key: {}, currencyCode: shopInfo.currencyCode },
+    feedItems,
+    now,
+    settings.tombstone_grace_days,
+  );
+
+  for await (const { target, items } of secondaryFeeds) {
+    await replaceFeedItems(db, shop, target.key, items);
+    await storeFeed(
+      db,
+      shop,
+      target,
+      items,
+      now,
+      settings.tombstone_grace_days,
+    );
+    console.log(
+      `[Feed] Mapped ${items.length} feed items for ${shop} (${target.key.country || target.key.locale})`,
+    );
+  }
+
+  // Drop feeds, their items and their tombstones for markets and languages
+  // that are no longer enabled
+  const countries = context.markets.map((m) => m.country);
+  for (const table of ["feed_cache", "feed_items", "feed_tombstones"]) {
+    await db
+      .prepare(
+        `DELETE FROM ${table} WHERE shop = ? AND (
+           (country != '' AND country NOT IN (SELECT value FROM json_each(?))) OR
+           (locale != '' AND locale NOT IN (SELECT value FROM json_each(?)))
+         )`,
+      )
+      .bind(shop, JSON.stringify(countries), JSON.stringify(context.locales))
+      .run();
+  }
+
+  await recordGeneration(db, shop, {
+    generatedAt: now,
+    productCount: feedItems.length,
+    ...sync,
+    full: true,
+  });
+
+  // Record how many variants each rule removed and per-item issues
+  await recordRuleExclusions(db, shop, rules, report.ruleExclusions);
+  await saveFeedIssues(db, shop, report.issues);
+  if (report.issues.length > 0) {
+    console.log(`[Feed] ${report.issues.length} items with issues for ${shop}`);
+  }
+
+  console.log(
+    `[Feed] Feed generation complete for ${shop}: ${feedItems.length} items`,
+  );
+}
+
+/**
+ * Map the market and language feeds from a full fetch's products
+ * Language feeds reuse the products, with the translations for every
+ * language fetched in one pass; markets need their own prices, so their
+ * products are fetched again.
+ */
+async function* mapSecondaryFeeds(
+  admin: any,
+  context: FeedGenerationContext,
+  products: ShopifyProduct[],
+  onProgress?: FeedJobProgress,
+): AsyncGenerator<SecondaryFeed> {
+  const { shopInfo, settings, locales } = context;
+  if (locales.length > 0) {
+    await onProgress?.("secondary_feeds");
+    await fetchProductTranslations(admin, products, locales);
+  }
+
+  for (const target of getSecondaryFeedTargets(context)) {
+    await onProgress?.("secondary_feeds");
+    const { locale } = target.key;
+    const targetProducts = locale
+      ? products.map((product) => selectLocaleTranslations(product, locale))
+      : await fetchAllProducts(admin, target.fetchOptions);
+    yield {
+      target,
+      items: mapProductsToFeed(
+        targetProducts,
+        shopInfo,
+        settings,
+        target.mapOptions,
+      ),
+    };
+  }
+}
+
+/**
+ * A bulk result product as fetched for a market or language feed, or null
+ * when the operation did not fetch the feed's prices or translations
+ */
+function selectTargetProduct(
+  product: ShopifyProduct,
+  target: FeedTarget,
+): ShopifyProduct | null {
+  const { country, locale } = target.key;
+  if (country) return selectMarketPricing(product, country);
+  if (locale) {
+    return product.localeTranslations?.[locale]
+      ? selectLocaleTranslations(product, locale)
+      : null;
+  }
+  return product;
+}
+
+/**
+ * Hand over the market and language feeds mapped from a bulk operation's
+ * result
+ * Feeds the operation did not fetch, e.g. for a market added while it ran,
+ * are fetched with pagination instead.
+ */
+async function* completeStreamedFeeds(
+  admin: any,
+  context: FeedGenerationContext,
+  feeds: Array<{ target: FeedTarget; mapper: FeedMapper; complete: boolean }>,
+  onProgress?: FeedJobProgress,
+): AsyncGenerator<SecondaryFeed> {
+  for (const { target, mapper, complete } of feeds) {
+    await onProgress?.("secondary_feeds");
+    yield {
+      target,
+      items: complete
+        ? mapper.items
+        : mapProductsToFeed(
+            await fetchAllProducts(admin, target.fetchOptions),
+            context.shopInfo,
+            context.settings,
+            target.mapOptions,
+          ),
+    };
+  }
+}
+
+/**
+ * Fetch options for a bulk operation, which also fetches every market's
+ * prices and every language's translations
+ */
+function getBulkFetchOptions(
+  context: FeedGenerationContext,
+): ProductFetchOptions {
+  return {
+    ...context.fetchOptions,
+    marketCountries: context.markets.map((market) => market.country),
+    locales: context.locales,
+  };
+}
+
+/**
+ * Patch a feed's stored items with changed products, then publish the feed
+ * rebuilt from the stored items
+ * Returns the feed's item count and the products that were patched
+ */
+async function patchFeed(
+  db: D1Database,
+  shop: string,
+  admin: any,
+  context: FeedGenerationContext,
+  target: FeedTarget,
+  changes: ProductChanges,
+  generatedAt: number,
+): Promise<{ itemCount: number; mappedCount: number; productIds: string[] }> {
+  const products =
+    changes.updatedAfter !== undefined || changes.productIds?.length
+      ? await fetchAllProducts(admin, {
+          ...target.fetchOptions,
+          updatedAfter: changes.updatedAfter,
+          productIds: changes.productIds,
+        })
+      : [];
+  // Requested products Shopify no longer returns are dropped too
+  const productIds = [
+    ...new Set([
+      ...products.map((p) => extractShopifyId(p.id)),
+      ...(changes.productIds || []),
+      ...(changes.removedProductIds || []),
+    ]),
+  ];
+  const changed = new Set(productIds);
+
+  // Items of unchanged products stay as stored
+  const keptItems = (await getFeedItems(db, shop, target.key)).filter(
+    (item) => !changed.has(item.group_id),
+  );
+  const items = mapProductsToFeed(
+    products,
+    context.shopInfo,
+    context.settings,
+    {
+      ...target.mapOptions,
+      listedItems: new Map(keptItems.map((item) => [item.item_id, item.title])),
+    },
+  );
+  await patchFeedItems(db, shop, target.key, productIds, items);
+
+  const feedItems = [...keptItems, ...items];
+  await storeFeed(
+    db,
+    shop,
+    target,
+    feedItems,
+    generatedAt,
+    context.settings.tombstone_grace_days,
+  );
+
+  return { itemCount: feedItems.length, mappedCount: items.length, productIds };
+}
+
+/**
+ * Update every feed with only the changed products
+ */
+async function generateIncrementalFeeds(
+  db: D1Database,
+  shop: string,
+  admin: any,
+  context: FeedGenerationContext,
+  changes: ProductChanges,
+  sync: { syncedAt: number | null; fingerprint: string },
+  onProgress?: FeedJobProgress,
+): Promise<FeedGenerationResult> {
+  const now = Date.now();
+  const report = createMapReport();
+  await onProgress?.("fetching");
+
+  const primary = await patchFeed(
+    db,
+    shop,
+    admin,
+    context,
+    {
+      key: {},
+      currencyCode: context.shopInfo.currencyCode,
+      fetchOptions: context.fetchOptions,
+      mapOptions: { ...context.mapOptions, report },
+    },
+    changes,
+    now,
+  );
+  console.log(
+    `[Feed] Updated ${primary.productIds.length} changed products for ${shop}`,
+  );
+
+  await saveItemIds(db, shop, report.newItemIds);
+  Object.assign(context.itemIds, report.newItemIds);
+
+  for (const target of getSecondaryFeedTargets(context)) {
+    await onProgress?.("secondary_feeds", report.products);
+    await patchFeed(db, shop, admin, context, target, changes, now);
+  }
+
+  // Rule exclusion counts cover the whole catalog, so they are only
+  // refreshed by full rebuilds
+  await patchFeedIssues(db, shop, primary.productIds, report.issues);
+  await recordGeneration(db, shop, {
+    generatedAt: now,
+    productCount: primary.itemCount,
+    syncedAt: sync.syncedAt,
+    fingerprint: sync.fingerprint,
+    full: false,
+  });
+
+  console.log(
+    `[Feed] Incremental feed generation complete for ${shop}: ${primary.itemCount} items`,
+  );
+
+  return {
+    success: true,
+    productCount: primary.itemCount,
+    stats: {
+      productsFetched: report.products,
+      itemsMapped: primary.mappedCount,
+      itemsSkipped: report.skipped,
+    },
+  };
+}
+
 /**
  * Generate the feed for a shop and cache it
+ * With market or locale feeds enabled, also generates one feed per market
+ * and one per published language. Only products changed since the
+ * last run are fetched, unless a full rebuild is due: once a day, when the
+ * settings changed or when asked for. Large catalogs are rebuilt with a bulk
+ * operation instead, and the feed is generated when it finishes.
+ * removedProductIds are dropped by incremental runs, which can't tell
+ * deleted products apart from unchanged ones.
  */
 export async function generateFeed(
   db: D1Database,
   shop: string,
   admin: any,
-): Promise<{ success: boolean; productCount: number; error?: string }> {
+  options: {
+    full?: boolean;
+    removedProductIds?: string[];
+    onProgress?: FeedJobProgress;
+  } = {},
+): Promise<FeedGenerationResult> {
+  const { onProgress } = options;
   try {
     console.log(`[Feed] Starting feed generation for ${shop}`);
 
-    // Fetch shop info and settings in parallel
-    const [shopInfo, settings] = await Promise.all([
-      fetchShopInfo(admin),
-      getFeedSettings(db, shop),
+    const startedAt = Date.now();
+    const [context, state] = await Promise.all([
+      loadGenerationContext(db, shop, admin),
+      getGenerationState(db, shop),
     ]);
+    const fingerprint = await fingerprintContext(context);
+
+    if (
+      !options.full &&
+      state.productsSyncedAt !== null &&
+      state.fullRebuildAt !== null &&
+      startedAt - state.fullRebuildAt < FULL_REBUILD_INTERVAL_MS &&
+      state.fingerprint === fingerprint
+    ) {
+      // Deleted products are not returned by Shopify, so they stay listed
+      // until their webhook or the next full rebuild removes them
+      return await generateIncrementalFeeds(
+        db,
+        shop,
+        admin,
+        context,
+        {
+          updatedAfter: state.productsSyncedAt - SYNC_OVERLAP_MS,
+          removedProductIds: options.removedProductIds,
+        },
+        { syncedAt: startedAt, fingerprint },
+        onProgress,
+      );
+    }
+
+    if ((await fetchCatalogSize(admin)) > BULK_VARIANT_THRESHOLD) {
+      return await startBulkFeedGeneration(
+        db,
+        shop,
+        admin,
+        getBulkFetchOptions(context),
+      );
+    }
 
-    // Fetch all products
-    const products = await fetchAllProducts(admin);
+    await onProgress?.("fetching", 0);
+    const extraPages: ProductExtraPages[] = [];
+    const products = await fetchAllProducts(
+      admin,
+      context.fetchOptions,
+      extraPages,
+      (fetched) => onProgress?.("fetching", fetched),
+    );
     console.log(`[Feed] Fetched ${products.length} products for ${shop}`);
 
-    // Map to feed format
-    const feedItems = mapProductsToFeed(products, shopInfo, settings);
+    // Products too large for one page of variants, media or collections
+    for (const extra of extraPages) {
+      console.log(
+        `[Feed] ${extra.title} (${extra.productId}) needed ${extra.variantRequests} extra variant, ${extra.mediaRequests} extra media and ${extra.collectionRequests} extra collection requests`,
+      );
+    }
+
+    await onProgress?.("mapping", products.length);
+    const report = createMapReport();
+    const feedItems = mapProductsToFeed(
+      products,
+      context.shopInfo,
+      context.settings,
+      { ...context.mapOptions, report },
+    );
     console.log(`[Feed] Mapped ${feedItems.length} feed items for ${shop}`);
 
-    // Convert to JSONL
-    const jsonl = feedItemsToJsonl(feedItems);
-    const now = Date.now();
+    await storeFullFeeds(
+      db,
+      shop,
+      context,
+      feedItems,
+      report,
+      mapSecondaryFeeds(admin, context, products, onProgress),
+      { syncedAt: startedAt, fingerprint },
+      onProgress,
+    );
 
-    // Store in cache
-    await db
-      .prepare(
-        `INSERT OR REPLACE INTO feed_cache (shop, feed_data, product_count, generated_at)
-         VALUES (?, ?, ?, ?)`,
-      )
-      .bind(shop, jsonl, feedItems.length, now)
-      .run();
+    return {
+      success: true,
+      productCount: feedItems.length,
+      stats: {
+        productsFetched: products.length,
+        itemsMapped: feedItems.length,
+        itemsSkipped: report.skipped,
+        largeProducts: extraPages,
+      },
+    };
+  } catch (error) {
+    // A feed is only cached once its products are fully fetched, so a failed
+    // fetch keeps serving the previous feed
+    console.error(
+      `[Feed] Feed generation failed for ${shop}, keeping the cached feed:`,
+      error,
+    );
+    return {
+      success: false,
+      productCount: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
 
-    // Update settings with generation timestamp
-    await db
-      .prepare(
-        `UPDATE feed_settings SET feed_generated_at = ?, product_count = ?, updated_at = ? WHERE shop = ?`,
-      )
-      .bind(now, feedItems.length, now, shop)
-      .run();
+/**
+ * Apply product webhooks to a shop's feeds
+ * Only the updated products are refetched and removed ones are dropped,
+ * instead of generating the whole feed. Falls back to a regular generation
+ * when there is none to patch yet or the settings changed since.
+ * Runs as a queued job under the shop's lock (see trackFeedJob), so a burst
+ * of webhooks is applied once and never patches the feed concurrently.
+ */
+export async function applyProductChanges(
+  db: D1Database,
+  shop: string,
+  admin: any,
+  changes: { updated: string[]; removed: string[] },
+  onProgress?: FeedJobProgress,
+): Promise<FeedGenerationResult> {
+  try {
+    const [context, state] = await Promise.all([
+      loadGenerationContext(db, shop, admin),
+      getGenerationState(db, shop),
+    ]);
+    const fingerprint = await fingerprintContext(context);
 
-    console.log(
-      `[Feed] Feed generation complete for ${shop}: ${feedItems.length} items`,
-    );
+    if (state.productsSyncedAt === null || state.fingerprint !== fingerprint) {
+      console.log(`[Feed] No feed to patch for ${shop}, generating it`);
+      return await generateFeed(db, shop, admin, { onProgress });
+    }
 
-    return { success: true, productCount: feedItems.length };
+    // Other products may have changed meanwhile, so the sync time is kept
+    return await generateIncrementalFeeds(
+      db,
+      shop,
+      admin,
+      context,
+      { productIds: changes.updated, removedProductIds: changes.removed },
+      { syncedAt: null, fingerprint },
+      onProgress,
+    );
   } catch (error) {
-    console.error(`[Feed] Feed generation failed for ${shop}:`, error);
+    console.error(`[Feed] Applying product changes failed for ${shop}:`, error);
     return {
       success: false,
       productCount: 0,
@@ -245,12 +1220,151 @@ export async function generateFeed(
   }
 }
 
+/**
+ * Start a bulk operation fetching a shop's products
+ * Only one runs per shop; while it does, further requests wait for it
+ */
+async function startBulkFeedGeneration(
+  db: D1Database,
+  shop: string,
+  admin: any,
+  fetchOptions: ProductFetchOptions,
+): Promise<FeedGenerationResult> {
+  const now = Date.now();
+  if (isBulkOperationRunning(await getBulkOperation(db, shop), now)) {
+    console.log(`[Feed] Bulk operation already running for ${shop}`);
+    return { success: true, productCount: 0, pending: true };
+  }
+
+  const operationId = await startBulkProductFetch(admin, fetchOptions);
+  await saveBulkOperation(db, shop, operationId, now);
+  console.log(`[Feed] Started bulk operation ${operationId} for ${shop}`);
+
+  return { success: true, productCount: 0, pending: true };
+}
+
+/**
+ * Pass products through from a stream, reporting how many arrived so far
+ */
+async function* reportStreamProgress(
+  products: AsyncIterable<ShopifyProduct>,
+  onProgress?: FeedJobProgress,
+): AsyncGenerator<ShopifyProduct> {
+  let count = 0;
+  for await (const product of products) {
+    yield product;
+    count++;
+    if (count % STREAM_PROGRESS_INTERVAL === 0) {
+      await onProgress?.("fetching", count);
+    }
+  }
+}
+
+/**
+ * Generate the feeds from a finished bulk operation
+ * Called from the bulk_operations/finish webhook. Products are mapped to
+ * the primary, market and language feeds as the result streams in.
+ */
+export async function completeBulkFeedGeneration(
+  db: D1Database,
+  shop: string,
+  admin: any,
+  operationId: string,
+  onProgress?: FeedJobProgress,
+): Promise<FeedGenerationResult> {
+  try {
+    const operation = await fetchBulkOperation(admin, operationId);
+    if (operation?.status !== "COMPLETED") {
+      const error = `Bulk operation ${(operation?.status || "not found").toLowerCase()}${operation?.errorCode ? ` (${operation.errorCode})` : ""}`;
+      await finishBulkOperation(db, shop, operationId, "failed", error);
+      console.error(`[Feed] ${error} for ${shop}`);
+      return { success: false, productCount: 0, error };
+    }
+
+    const [context, bulkOperation] = await Promise.all([
+      loadGenerationContext(db, shop, admin),
+      getBulkOperation(db, shop),
+    ]);
+    await onProgress?.("fetching", 0);
+    const { shopInfo, settings } = context;
+    const report = createMapReport();
+    const primary = createFeedMapper(shopInfo, settings, {
+      ...context.mapOptions,
+      report,
+    });
+    const secondary = getSecondaryFeedTargets(context).map((target) => ({
+      target,
+      mapper: createFeedMapper(shopInfo, settings, target.mapOptions),
+      complete: true,
+    }));
+
+    // No result file means the shop has no products
+    if (operation.url) {
+      const products = reportStreamProgress(
+        streamBulkProducts(operation.url, getBulkFetchOptions(context)),
+        onProgress,
+      );
+      for await (const product of products) {
+        primary.add(product);
+        for (const feed of secondary) {
+          if (!feed.complete) continue;
+          const targetProduct = selectTargetProduct(product, feed.target);
+          if (targetProduct) {
+            feed.mapper.add(targetProduct);
+          } else {
+            feed.complete = false;
+          }
+        }
+      }
+    }
+    const feedItems = primary.items;
+    console.log(
+      `[Feed] Mapped ${feedItems.length} feed items for ${shop} from bulk operation`,
+    );
+
+    // Products changed while the operation ran are picked up by the next
+    // incremental run
+    await storeFullFeeds(
+      db,
+      shop,
+      context,
+      feedItems,
+      report,
+      completeStreamedFeeds(admin, context, secondary, onProgress),
+      {
+        syncedAt: bulkOperation?.startedAt ?? Date.now(),
+        fingerprint: await fingerprintContext(context),
+      },
+      onProgress,
+    );
+    await finishBulkOperation(db, shop, operationId, "completed");
+
+    return {
+      success: true,
+      productCount: feedItems.length,
+      stats: {
+        productsFetched: report.products,
+        itemsMapped: feedItems.length,
+        itemsSkipped: report.skipped,
+      },
+    };
+  } catch (error) {
+    console.error(`[Feed] Bulk feed generation failed for ${shop}:`, error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await finishBulkOperation(db, shop, operationId, "failed", message);
+    return { success: false, productCount: 0, error: message };
+  }
+}
+
 /**
  * Get cached feed data for a shop
+ * Pass a country or locale to get that feed instead of the primary feed; a
+ * country gets the feed of the market selling to it
  */
 export async function getCachedFeed(
   db: D1Database,
   shop: string,
+  key: FeedKey = {},
 ): Promise<{
   feedData: string;
   productCount: number;
@@ -258,9 +1372,17 @@ export async function getCachedFeed(
 } | null> {
   const row = await db
     .prepare(
-      "SELECT feed_data, product_count, generated_at FROM feed_cache WHERE shop = ?",
+      `SELECT feed_data, product_count, generated_at FROM feed_cache
+       WHERE shop = ? AND locale = ? AND (country = ? OR ? IN (SELECT value FROM json_each(market_countries)))
+       ORDER BY country = ? DESC LIMIT 1`,
+    )
+    .bind(
+      shop,
+      key.locale || "",
+      key.country || "",
+      key.country || "",
+      key.country || "",
     )
-    .bind(shop)
     .first();
 
   if (!row || !row.feed_data) return null;
@@ -272,6 +1394,57 @@ export async function getCachedFeed(
   };
 }
 
+/**
+ * List the market feeds generated for a shop
+ */
+export async function getMarketFeeds(
+  db: D1Database,
+  shop: string,
+): Promise<
+  Array<{
+    country: string;
+    countries: string[];
+    currencyCode: string;
+    productCount: number;
+  }>
+> {
+  const { results } = await db
+    .prepare(
+      "SELECT country, market_countries, currency_code, product_count FROM feed_cache WHERE shop = ? AND country != '' ORDER BY country",
+    )
+    .bind(shop)
+    .all();
+
+  return results.map((row) => ({
+    country: row.country as string,
+    countries: row.market_countries
+      ? JSON.parse(row.market_countries as string)
+      : [row.country as string],
+    currencyCode: row.currency_code as string,
+    productCount: row.product_count as number,
+  }));
+}
+
+/**
+ * List the translated feeds generated for a shop
+ */
+export async function getLocaleFeeds(
+  db: D1Database,
+  shop: string,
+): Promise<Array<{ locale: string; productCount: number }>> {
+  const { results } = await db
+    .prepare(
+      "SELECT locale, product_count FROM feed_cache WHERE shop = ? AND locale != '' ORDER BY locale",
+    )
+    .bind(shop)
+    .all();
+
+  return results.map((row) => ({
+    locale: row.locale as string,
+    productCount: row.product_count as number,
+  }));
+}
+
 /**
  * Delete all feed data for a shop (on uninstall)
  */
@@ -282,5 +1455,32 @@ export async function deleteFeedData(
   await Promise.all([
     db.prepare("DELETE FROM feed_settings WHERE shop = ?").bind(shop).run(),
     db.prepare("DELETE FROM feed_cache WHERE shop = ?").bind(shop).run(),
+    db.prepare("DELETE FROM feed_rules WHERE shop = ?").bind(shop).run(),
+    db
+      .prepare("DELETE FROM feed_metafield_mappings WHERE shop = ?")
+      .bind(shop)
+      .run(),
+    db.prepare("DELETE FROM feed_issues WHERE shop = ?").bind(shop).run(),
+    db
+      .prepare("DELETE FROM feed_category_mappings WHERE shop = ?")
+      .bind(shop)
+      .run(),
+    db
+      .prepare("DELETE FROM feed_shipping_overrides WHERE shop = ?")
+      .bind(shop)
+      .run(),
+    db.prepare("DELETE FROM feed_item_ids WHERE shop = ?").bind(shop).run(),
+    db.prepare("DELETE FROM feed_tombstones WHERE shop = ?").bind(shop).run(),
+    db.prepare("DELETE FROM feed_items WHERE shop = ?").bind(shop).run(),
+    db
+      .prepare("DELETE FROM feed_bulk_operations WHERE shop = ?")
+      .bind(shop)
+      .run(),
+    db
+      .prepare("DELETE FROM feed_pending_changes WHERE shop = ?")
+      .bind(shop)
+      .run(),
+    db.prepare("DELETE FROM feed_dead_jobs WHERE shop = ?").bind(shop).run(),
+    db.prepare("DELETE FROM feed_jobs WHERE shop = ?").bind(shop).run(),
   ]);
 }
@@ -0,0 +1,544 @@
+/**
+ * Shipping
+ * Builds feed shipping entries and delivery estimates from Shopify delivery
+ * profiles, with per-country overrides configured in the app
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { ShopifyProduct, ShopifyVariant } from "./shopify-products.server";
+import { graphqlRequest } from "./shopify-graphql.server";
+
+// Zone fields shared by the profile and zone page queries
+const LOCATION_GROUP_ZONE_FIELDS = `
+  zone {
+    name
+    countries {
+      code {
+        countryCode
+        restOfWorld
+      }
+    }
+  }
+  methodDefinitions(first: 10) {
+    pageInfo {
+      hasNextPage
+    }
+    nodes {
+      name
+      active
+      rateProvider {
+        ... on DeliveryRateDefinition {
+          price {
+            amount
+            currencyCode
+          }
+        }
+      }
+      methodConditions {
+        field
+        operator
+        conditionCriteria {
+          __typename
+          ... on Weight {
+            unit
+            value
+          }
+          ... on MoneyV2 {
+            amount
+          }
+        }
+      }
+    }
+  }
+`;
+
+const DELIVERY_PROFILES_QUERY = `#graphql
+  query GetDeliveryProfiles($cursor: String) {
+    deliveryProfiles(first: 10, after: $cursor) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        default
+        profileLocationGroups {
+          locationGroup {
+            id
+          }
+          locationGroupZones(first: 25) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              ${LOCATION_GROUP_ZONE_FIELDS}
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const DELIVERY_PROFILE_ZONES_QUERY = `#graphql
+  query GetDeliveryProfileZones($id: ID!, $groupId: ID!, $cursor: String) {
+    deliveryProfile(id: $id) {
+      profileLocationGroups(locationGroupId: $groupId) {
+        locationGroupZones(first: 25, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            ${LOCATION_GROUP_ZONE_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+const DELIVERY_PROFILE_PRODUCTS_QUERY = `#graphql
+  query GetDeliveryProfileProducts($id: ID!, $cursor: String) {
+    deliveryProfile(id: $id) {
+      profileItems(first: 250, after: $cursor) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          product {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * A flat shipping rate that applies to one country (or the rest of the world)
+ */
+export interface ShippingRate {
+  // ISO country code, or "*" for rest of world
+  country: string;
+  service: string;
+  price: number;
+  currencyCode: string;
+  minWeightGrams?: number;
+  maxWeightGrams?: number;
+  minSubtotal?: number;
+  maxSubtotal?: number;
+}
+
+export interface ShippingProfile {
+  id: string;
+  isDefault: boolean;
+  // Product GIDs assigned to this profile (empty for the default profile)
+  productIds: Set<string>;
+  rates: ShippingRate[];
+}
+
+export interface ShippingOverride {
+  id: number;
+  shop: string;
+  country: string;
+  region: string | null;
+  service: string;
+  price: number;
+  min_transit_days: number | null;
+  max_transit_days: number | null;
+}
+
+/**
+ * Everything the mapper needs to emit shipping fields
+ */
+export interface ShippingContext {
+  profiles: ShippingProfile[];
+  overrides: ShippingOverride[];
+  currencyCode: string;
+  handlingDays: number;
+}
+
+const WEIGHT_TO_GRAMS: Record<string, number> = {
+  GRAMS: 1,
+  KILOGRAMS: 1000,
+  OUNCES: 28.3495,
+  POUNDS: 453.592,
+};
+
+/**
+ * Convert a Shopify weight to grams
+ */
+function toGrams(value: number, unit: string): number {
+  return value * (WEIGHT_TO_GRAMS[unit] || 1);
+}
+
+/**
+ * Apply a method condition (weight or order subtotal bound) to a rate
+ */
+function applyCondition(rate: ShippingRate, condition: any): void {
+  const criteria = condition.conditionCriteria;
+  const isMin = condition.operator === "GREATER_THAN_OR_EQUAL_TO";
+
+  if (criteria?.__typename === "Weight") {
+    const grams = toGrams(Number(criteria.value), criteria.unit);
+    if (isMin) rate.minWeightGrams = grams;
+    else rate.maxWeightGrams = grams;
+  } else if (criteria?.__typename === "MoneyV2") {
+    const amount = Number(criteria.amount);
+    if (isMin) rate.minSubtotal = amount;
+    else rate.maxSubtotal = amount;
+  }
+}
+
+/**
+ * Fetch the product IDs assigned to a delivery profile
+ */
+async function fetchProfileProductIds(
+  admin: any,
+  profileId: string,
+): Promise<Set<string>> {
+  const productIds = new Set<string>();
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const data: any = await graphqlRequest(
+      admin,
+      DELIVERY_PROFILE_PRODUCTS_QUERY,
+      { id: profileId, cursor },
+    );
+    const items = data.deliveryProfile?.profileItems;
+    if (!items) break;
+
+    for (const node of items.nodes) {
+      productIds.add(node.product.id);
+    }
+    hasNextPage = items.pageInfo.hasNextPage;
+    cursor = items.pageInfo.endCursor;
+  }
+
+  return productIds;
+}
+
+/**
+ * Fetch all zones of a profile's location group, following further pages
+ * when the first page is full
+ */
+async function fetchLocationGroupZones(
+  admin: any,
+  profileId: string,
+  group: any,
+): Promise<any[]> {
+  const zones: any[] = [...(group.locationGroupZones?.nodes || [])];
+  let pageInfo = group.locationGroupZones?.pageInfo;
+
+  while (pageInfo?.hasNextPage) {
+    const data: any = await graphqlRequest(
+      admin,
+      DELIVERY_PROFILE_ZONES_QUERY,
+      {
+        id: profileId,
+        groupId: group.locationGroup.id,
+        cursor: pageInfo.endCursor,
+      },
+    );
+    const connection =
+      data.deliveryProfile?.profileLocationGroups?.[0]?.locationGroupZones;
+    if (!connection) break;
+
+    zones.push(...connection.nodes);
+    pageInfo = connection.pageInfo;
+  }
+
+  return zones;
+}
+
+/**
+ * Fetch delivery profiles with their flat rates per country
+ * Carrier-calculated rates have no fixed price and are skipped
+ */
+export async function fetchShippingProfiles(
+  admin: any,
+): Promise<ShippingProfile[]> {
+  const nodes: any[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const data: any = await graphqlRequest(admin, DELIVERY_PROFILES_QUERY, {
+      cursor,
+    });
+    const connection = data.deliveryProfiles;
+    if (!connection) break;
+
+    nodes.push(...connection.nodes);
+    hasNextPage = connection.pageInfo.hasNextPage;
+    cursor = connection.pageInfo.endCursor;
+  }
+
+  const profiles: ShippingProfile[] = [];
+  for (const node of nodes) {
+    const rates: ShippingRate[] = [];
+
+    for (const group of node.profileLocationGroups || []) {
+      const zones = await fetchLocationGroupZones(admin, node.id, group);
+      for (const groupZone of zones) {
+        // Zones rarely have more than a handful of rates; only the first
+        // page is read
+        if (groupZone.methodDefinitions?.pageInfo?.hasNextPage) {
+          console.log(
+            `[Shipping] Zone ${groupZone.zone.name} in profile ${node.id} has more rates than were fetched`,
+          );
+        }
+        for (const method of groupZone.methodDefinitions?.nodes || []) {
+          const ratePrice = method.rateProvider?.price;
+          if (!method.active || !ratePrice) continue;
+
+          for (const country of groupZone.zone.countries) {
+            const rate: ShippingRate = {
+              country: country.code.restOfWorld
+                ? "*"
+                : country.code.countryCode,
+              service: method.name,
+              price: Number(ratePrice.amount),
+              currencyCode: ratePrice.currencyCode,
+            };
+            for (const condition of method.methodConditions || []) {
+              applyCondition(rate, condition);
+            }
+            rates.push(rate);
+          }
+        }
+      }
+    }
+
+    profiles.push({
+      id: node.id,
+      isDefault: Boolean(node.default),
+      productIds: node.default
+        ? new Set()
+        : await fetchProfileProductIds(admin, node.id),
+      rates,
+    });
+  }
+
+  return profiles;
+}
+
+/**
+ * Check a rate's weight and subtotal conditions against a single unit
+ */
+function rateApplies(
+  rate: ShippingRate,
+  weightGrams: number,
+  price: number,
+): boolean {
+  if (rate.minWeightGrams !== undefined && weightGrams < rate.minWeightGrams)
+    return false;
+  if (rate.maxWeightGrams !== undefined && weightGrams > rate.maxWeightGrams)
+    return false;
+  if (rate.minSubtotal !== undefined && price < rate.minSubtotal) return false;
+  if (rate.maxSubtotal !== undefined && price > rate.maxSubtotal) return false;
+  return true;
+}
+
+/**
+ * Format a feed shipping entry: country:region:service:price
+ */
+function formatShippingEntry(
+  country: string,
+  region: string,
+  service: string,
+  price: number,
+  currencyCode: string,
+): string {
+  return `${country}:${region}:${service}:${price.toFixed(2)} ${currencyCode}`;
+}
+
+/**
+ * Add business days to a date, skipping weekends
+ */
+function addBusinessDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    const day = result.getUTCDay();
+    if (day !== 0 && day !== 6) remaining--;
+  }
+  return result;
+}
+
+/**
+ * Build the shipping entries and delivery time for one variant
+ * Overrides replace Shopify rates for their country. Otherwise the cheapest
+ * applicable rate per service is used, based on the variant's weight and price.
+ * The delivery time is in business days; see resolveDeliveryEstimates.
+ */
+export function buildShippingFields(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  countries: string[],
+  context: ShippingContext,
+): { shipping?: string; delivery_days?: number } {
+  const profile =
+    context.profiles.find((p) => p.productIds.has(product.id)) ||
+    context.profiles.find((p) => p.isDefault);
+
+  const weight = variant.inventoryItem?.measurement?.weight;
+  const weightGrams = weight ? toGrams(weight.value, weight.unit) : 0;
+  const price = parseFloat(variant.price);
+
+  const entries: string[] = [];
+  let maxTransitDays: number | undefined;
+
+  for (const country of countries) {
+    const overrides = context.overrides.filter((o) => o.country === country);
+
+    if (overrides.length > 0) {
+      for (const override of overrides) {
+        entries.push(
+          formatShippingEntry(
+            country,
+            override.region || "",
+            override.service,
+            override.price,
+            context.currencyCode,
+          ),
+        );
+        // The estimate covers the slowest service
+        if (override.max_transit_days !== null) {
+          maxTransitDays = Math.max(
+            maxTransitDays ?? 0,
+            override.max_transit_days,
+          );
+        }
+      }
+      continue;
+    }
+
+    // Explicit zones for the country win over the rest-of-world zone
+    const profileRates = profile?.rates || [];
+    const countryRates = profileRates.filter((r) => r.country === country);
+    const candidates = (
+      countryRates.length > 0
+        ? countryRates
+        : profileRates.filter((r) => r.country === "*")
+    ).filter((r) => rateApplies(r, weightGrams, price));
+
+    const cheapestByService = new Map<string, ShippingRate>();
+    for (const rate of candidates) {
+      const current = cheapestByService.get(rate.service);
+      if (!current || rate.price < current.price) {
+        cheapestByService.set(rate.service, rate);
+      }
+    }
+
+    for (const rate of cheapestByService.values()) {
+      entries.push(
+        formatShippingEntry(
+          country,
+          "",
+          rate.service,
+          rate.price,
+          rate.currencyCode,
+        ),
+      );
+    }
+  }
+
+  return {
+    ...(entries.length > 0 && { shipping: entries.join(",") }),
+    ...(maxTransitDays !== undefined && {
+      delivery_days: context.handlingDays + maxTransitDays,
+    }),
+  };
+}
+
+/**
+ * Turn the items' delivery times into delivery estimates dated from now
+ * Stored items are reused across incremental runs, so the date is set when
+ * the feed is published rather than when the item was mapped
+ */
+export function resolveDeliveryEstimates<
+  T extends { delivery_days?: number; delivery_estimate?: string },
+>(items: T[], now: number): T[] {
+  return items.map((item) => {
+    if (item.delivery_days === undefined) return item;
+    const { delivery_days, ...rest } = item;
+    return {
+      ...rest,
+      delivery_estimate: addBusinessDays(new Date(now), delivery_days)
+        .toISOString()
+        .slice(0, 10),
+    } as T;
+  });
+}
+
+/**
+ * Get all shipping overrides for a shop
+ */
+export async function getShippingOverrides(
+  db: D1Database,
+  shop: string,
+): Promise<ShippingOverride[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT * FROM feed_shipping_overrides WHERE shop = ? ORDER BY country, service",
+    )
+    .bind(shop)
+    .all();
+
+  return results.map((row) => ({
+    id: row.id as number,
+    shop: row.shop as string,
+    country: row.country as string,
+    region: row.region as string | null,
+    service: row.service as string,
+    price: row.price as number,
+    min_transit_days: row.min_transit_days as number | null,
+    max_transit_days: row.max_transit_days as number | null,
+  }));
+}
+
+/**
+ * Add a shipping override for a country
+ */
+export async function createShippingOverride(
+  db: D1Database,
+  shop: string,
+  override: Omit<ShippingOverride, "id" | "shop">,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO feed_shipping_overrides (shop, country, region, service, price, min_transit_days, max_transit_days)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      shop,
+      override.country,
+      override.region,
+      override.service,
+      override.price,
+      override.min_transit_days,
+      override.max_transit_days,
+    )
+    .run();
+}
+
+/**
+ * Delete a shipping override
+ */
+export async function deleteShippingOverride(
+  db: D1Database,
+  shop: string,
+  id: number,
+): Promise<void> {
+  await db
+    .prepare("DELETE FROM feed_shipping_overrides WHERE id = ? AND shop = ?")
+    .bind(id, shop)
+    .run();
+}
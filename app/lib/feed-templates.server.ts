@@ -0,0 +1,149 @@
+/**
+ * Feed Templates
+ * Renders per-shop title and description templates with product placeholders
+ *
+ * Placeholders: {{title}}, {{option.color}}, {{metafield.custom.material}}, ...
+ * Sections: {{#vendor}}by {{vendor}}{{/vendor}} renders only when vendor is set,
+ * {{^vendor}}...{{/vendor}} only when it is empty.
+ */
+
+import type { ShopifyProduct, ShopifyVariant } from "./shopify-products.server";
+import { getMetafieldText } from "./feed-metafields.server";
+import {
+  translateOptionValue,
+  type ProductTranslations,
+} from "./feed-translations.server";
+
+// Placeholder → description, shown on the settings page
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  "{{title}}": "Product title",
+  "{{variant_title}}": "Variant title (empty for single-variant products)",
+  "{{vendor}}": "Vendor",
+  "{{product_type}}": "Product type",
+  "{{tags}}": "Tags, comma-separated",
+  "{{sku}}": "Variant SKU",
+  "{{description}}": "Product description as plain text",
+  "{{option.name}}": "Variant option value, e.g. {{option.color}}",
+  "{{metafield.namespace.key}}": "Product metafield",
+  "{{variant.metafield.namespace.key}}": "Variant metafield",
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const SECTION_PATTERN =
+  /\{\{([#^])\s*([\w.-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const METAFIELD_PATTERN =
+  /\{\{[#^/]?\s*(variant\.)?metafield\.([\w-]+)\.([\w-]+)\s*\}\}/g;
+
+/**
+ * Collect the placeholder values for one variant
+ * Option and metafield values are read lazily by name
+ */
+export function buildTemplateValues(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  base: { title: string; description: string },
+  translations: ProductTranslations | null,
+): (name: string) => string {
+  const values: Record<string, string> = {
+    title: base.title,
+    variant_title:
+      variant.title === "Default Title"
+        ? ""
+        : variant.selectedOptions
+            .map((o) => translateOptionValue(translations, o.name, o.value))
+            .join(" / "),
+    vendor: product.vendor || "",
+    product_type: product.productType || "",
+    tags: product.tags.join(", "),
+    sku: variant.sku || "",
+    description: base.description,
+  };
+
+  return (name) => {
+    if (name in values) return values[name];
+
+    if (name.startsWith("option.")) {
+      const optionName = name.slice("option.".length);
+      const option = variant.selectedOptions.find(
+        (o) => o.name.toLowerCase() === optionName.toLowerCase(),
+      );
+      if (!option || option.value === "Default Title") return "";
+      return translateOptionValue(translations, option.name, option.value);
+    }
+
+    const metafield = name.match(/^(variant\.)?metafield\.([\w-]+)\.([\w-]+)$/);
+    if (metafield) {
+      const [, variantOwner, namespace, key] = metafield;
+      return (
+        getMetafieldText(
+          variantOwner ? variant.metafields : product.metafields,
+          namespace,
+          key,
+        ) || ""
+      );
+    }
+
+    return "";
+  };
+}
+
+/**
+ * Render a template, resolving sections first and then placeholders
+ * Whitespace is collapsed so empty placeholders leave no gaps
+ */
+export function renderTemplate(
+  template: string,
+  getValue: (name: string) => string,
+): string {
+  let result = template;
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(
+      SECTION_PATTERN,
+      (_match, type: string, name: string, content: string) => {
+        const hasValue = getValue(name).trim() !== "";
+        return (type === "#") === hasValue ? content : "";
+      },
+    );
+  } while (result !== previous);
+
+  return result
+    .replace(PLACEHOLDER_PATTERN, (_match, name: string) => getValue(name))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Truncate text to a maximum length, preferring a word boundary
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  let cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  if (lastSpace > maxLength * 0.6) {
+    cut = cut.slice(0, lastSpace);
+  }
+  return `${cut.trimEnd()}…`;
+}
+
+/**
+ * Get the "namespace.key" metafield identifiers used by templates
+ */
+export function getTemplateMetafieldKeys(templates: Array<string | null>): {
+  product: string[];
+  variant: string[];
+} {
+  const product = new Set<string>();
+  const variant = new Set<string>();
+
+  for (const template of templates) {
+    for (const match of (template || "").matchAll(METAFIELD_PATTERN)) {
+      const [, variantOwner, namespace, key] = match;
+      (variantOwner ? variant : product).add(`${namespace}.${key}`);
+    }
+  }
+
+  return { product: [...product], variant: [...variant] };
+}
@@ -0,0 +1,134 @@
+/**
+ * Feed Tombstones
+ * Keeps items that drop out of a feed (deleted, archived, unpublished or
+ * excluded) listed as out of stock for a grace period, so ChatGPT learns
+ * about the removal before they disappear
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { OpenAIFeedItem } from "./feed-mapper.server";
+import type { FeedKey } from "./feed-service.server";
+
+// Max statements per D1 batch when storing tombstones
+const BATCH_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turn a feed item into its tombstone: out of stock and not purchasable
+ */
+function toTombstone(item: OpenAIFeedItem): OpenAIFeedItem {
+  const { availability_date, delivery_estimate, inventory_quantity, ...rest } =
+    item;
+  return {
+    ...rest,
+    availability: "out_of_stock",
+    is_eligible_checkout: false,
+    ...(inventory_quantity !== undefined && { inventory_quantity: 0 }),
+  };
+}
+
+/**
+ * Update a feed's tombstones and return the items to store
+ * Items in the previous feed but not in the new one become tombstones, items
+ * that come back are restored, and tombstones past the grace period are purged
+ */
+export async function applyTombstones(
+  db: D1Database,
+  shop: string,
+  key: FeedKey,
+  items: OpenAIFeedItem[],
+  previousItems: OpenAIFeedItem[],
+  graceDays: number,
+  now: number,
+): Promise<OpenAIFeedItem[]> {
+  const country = key.country || "";
+  const locale = key.locale || "";
+
+  if (graceDays <= 0) {
+    await db
+      .prepare(
+        "DELETE FROM feed_tombstones WHERE shop = ? AND country = ? AND locale = ?",
+      )
+      .bind(shop, country, locale)
+      .run();
+    return items;
+  }
+
+  const { results } = await db
+    .prepare(
+      "SELECT item_id, item_data, removed_at FROM feed_tombstones WHERE shop = ? AND country = ? AND locale = ?",
+    )
+    .bind(shop, country, locale)
+    .all();
+  const tombstones = new Map(
+    results.map((row) => [
+      row.item_id as string,
+      {
+        item: JSON.parse(row.item_data as string) as OpenAIFeedItem,
+        removedAt: row.removed_at as number,
+      },
+    ]),
+  );
+
+  const liveIds = new Set(items.map((item) => item.item_id));
+  const cutoff = now - graceDays * DAY_MS;
+
+  // Previous items that were live and are now gone
+  const removed = previousItems
+    .filter((item) => !liveIds.has(item.item_id))
+    .filter((item) => !tombstones.has(item.item_id))
+    .map(toTombstone);
+  for (const item of removed) {
+    tombstones.set(item.item_id, { item, removedAt: now });
+  }
+
+  // Tombstones to drop: restored items and expired ones
+  const dropped = [...tombstones.entries()]
+    .filter(([itemId, t]) => liveIds.has(itemId) || t.removedAt < cutoff)
+    .map(([itemId]) => itemId);
+
+  const statements = [
+    ...removed.map((item) =>
+      db
+        .prepare(
+          `INSERT OR REPLACE INTO feed_tombstones (shop, country, locale, item_id, item_data, removed_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .bind(shop, country, locale, item.item_id, JSON.stringify(item), now),
+    ),
+    ...dropped.map((itemId) =>
+      db
+        .prepare(
+          "DELETE FROM feed_tombstones WHERE shop = ? AND country = ? AND locale = ? AND item_id = ?",
+        )
+        .bind(shop, country, locale, itemId),
+    ),
+  ];
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + BATCH_SIZE));
+  }
+
+  for (const itemId of dropped) {
+    tombstones.delete(itemId);
+  }
+
+  return [...items, ...[...tombstones.values()].map((t) => t.item)];
+}
+
+/**
+ * Count the removed items currently listed in a shop's primary feed
+ */
+export async function countTombstones(
+  db: D1Database,
+  shop: string,
+): Promise<number> {
+  const row = await db
+    .prepare(
+      "SELECT COUNT(*) AS count FROM feed_tombstones WHERE shop = ? AND country = '' AND locale = ''",
+    )
+    .bind(shop)
+    .first();
+
+  return (row?.count as number) || 0;
+}
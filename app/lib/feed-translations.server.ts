@@ -0,0 +1,101 @@
+/**
+ * Product Translations
+ * Reads Translations API data fetched with PRODUCTS_QUERY, or for several
+ * locales at once with fetchProductTranslations, for locale feeds
+ */
+
+import type {
+  ShopifyProduct,
+  ShopifyTranslation,
+} from "./shopify-products.server";
+
+export interface ProductTranslations {
+  title?: string;
+  descriptionHtml?: string;
+  // Original option name → translated name
+  optionNames: Record<string, string>;
+  // Original option name → original value → translated value
+  optionValues: Record<string, Record<string, string>>;
+}
+
+/**
+ * Find a translated value by key, ignoring empty translations
+ */
+function findTranslation(
+  translations: ShopifyTranslation[] | undefined,
+  key: string,
+): string | undefined {
+  return (
+    translations?.find((t) => t.key === key && t.value)?.value || undefined
+  );
+}
+
+/**
+ * Collect a product's translations for title, description and options
+ * Missing translations are left out so callers fall back to the default language
+ */
+export function getProductTranslations(
+  product: ShopifyProduct,
+): ProductTranslations {
+  const optionNames: Record<string, string> = {};
+  const optionValues: Record<string, Record<string, string>> = {};
+
+  for (const option of product.options) {
+    const name = findTranslation(option.translations, "name");
+    if (name) {
+      optionNames[option.name] = name;
+    }
+
+    optionValues[option.name] = {};
+    for (const optionValue of option.optionValues || []) {
+      const value = findTranslation(optionValue.translations, "name");
+      if (value) {
+        optionValues[option.name][optionValue.name] = value;
+      }
+    }
+  }
+
+  return {
+    title: findTranslation(product.translations, "title"),
+    descriptionHtml: findTranslation(product.translations, "body_html"),
+    optionNames,
+    optionValues,
+  };
+}
+
+/**
+ * Give a product its translations into one locale, as if it had been
+ * fetched for that locale alone
+ * Products without translations for the locale are returned as they are.
+ */
+export function selectLocaleTranslations(
+  product: ShopifyProduct,
+  locale: string,
+): ShopifyProduct {
+  const localized = product.localeTranslations?.[locale];
+  if (!localized) return product;
+
+  return {
+    ...product,
+    translations: localized.translations,
+    options: product.options.map((option) => {
+      const translated = localized.options.find((o) => o.name === option.name);
+      return {
+        ...option,
+        translations: translated?.translations,
+        optionValues: translated?.optionValues,
+      };
+    }),
+  };
+}
+
+/**
+ * Translate an option value, falling back to the original
+ */
+export function translateOptionValue(
+  translations: ProductTranslations | null,
+  optionName: string,
+  value: string,
+): string {
+  return translations?.optionValues[optionName]?.[value] || value;
+}
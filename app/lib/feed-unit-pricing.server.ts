@@ -0,0 +1,93 @@
+/**
+ * Unit Pricing
+ * Builds unit pricing measures from Shopify's unit price measurement, or from
+ * a per-product override metafield
+ */
+
+import type { ShopifyProduct, ShopifyVariant } from "./shopify-products.server";
+import { getMetafieldText } from "./feed-metafields.server";
+
+// Shopify UnitPriceMeasurementMeasuredUnit → feed unit
+const UNIT_MAP: Record<string, string> = {
+  ML: "ml",
+  CL: "cl",
+  L: "l",
+  M3: "cbm",
+  MG: "mg",
+  G: "g",
+  KG: "kg",
+  MM: "mm",
+  CM: "cm",
+  M: "m",
+  M2: "sqm",
+  FLOZ: "floz",
+  PT: "pt",
+  QT: "qt",
+  GAL: "gal",
+  OZ: "oz",
+  LB: "lb",
+  IN: "in",
+  FT: "ft",
+  FT2: "sqft",
+  YD: "yd",
+  ITEM: "ct",
+};
+
+// "750 ml" or "750 ml / 1 l"
+const OVERRIDE_PATTERN =
+  /^\s*(\d+(?:\.\d+)?\s*[a-z]+)\s*(?:\/\s*(\d+(?:\.\d+)?\s*[a-z]+))?\s*$/i;
+
+/**
+ * Format a measure as "<value> <unit>"
+ */
+function formatMeasure(value: number, unit: string): string {
+  return `${Number(value.toFixed(3))} ${unit}`;
+}
+
+/**
+ * Build the unit pricing fields for a variant
+ * A product override metafield wins over Shopify's unit price measurement
+ */
+export function getUnitPricingFields(
+  product: ShopifyProduct,
+  variant: ShopifyVariant,
+  overrideMetafield: string | null,
+): { unit_pricing_measure?: string; unit_pricing_base_measure?: string } {
+  if (overrideMetafield) {
+    const [namespace, key] = overrideMetafield.split(".");
+    const value = getMetafieldText(product.metafields, namespace, key);
+    const match = value?.match(OVERRIDE_PATTERN);
+    if (match) {
+      const normalize = (measure: string) =>
+        measure
+          .replace(/\s+/g, "")
+          .replace(/^([\d.]+)/, "$1 ")
+          .toLowerCase();
+      return {
+        unit_pricing_measure: normalize(match[1]),
+        ...(match[2] && { unit_pricing_base_measure: normalize(match[2]) }),
+      };
+    }
+  }
+
+  const measurement = variant.unitPriceMeasurement;
+  if (!variant.unitPrice || !measurement?.quantityValue) return {};
+
+  const quantityUnit = UNIT_MAP[measurement.quantityUnit || ""];
+  if (!quantityUnit) return {};
+
+  const referenceUnit = UNIT_MAP[measurement.referenceUnit || ""];
+  return {
+    unit_pricing_measure: formatMeasure(
+      measurement.quantityValue,
+      quantityUnit,
+    ),
+    ...(referenceUnit &&
+      measurement.referenceValue && {
+        unit_pricing_base_measure: formatMeasure(
+          measurement.referenceValue,
+          referenceUnit,
+        ),
+      }),
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Feed Validator
+ * Checks generated feed items against the OpenAI product feed spec
+ * Spec: https://developers.openai.com/commerce/specs/feed
+ */
+
+import type { OpenAIFeedItem } from "./feed-mapper.server";
+import type { FeedIssue } from "./feed-issues.server";
+
+/**
+ * A spec violation found on one feed item
+ */
+export type FeedValidationIssue = Pick<
+  FeedIssue,
+  "severity" | "field" | "code" | "message"
+>;
+
+type FeedField = keyof OpenAIFeedItem;
+
+// Fields every item must have
+const REQUIRED_FIELDS: FeedField[] = [
+  "item_id",
+  "title",
+  "description",
+  "url",
+  "product_category",
+  "brand",
+  "image_url",
+  "price",
+  "availability",
+  "group_id",
+  "seller_name",
+  "seller_url",
+  "target_countries",
+  "store_country",
+];
+
+// Maximum lengths in characters
+export const FIELD_MAX_LENGTHS: Partial<Record<FeedField, number>> = {
+  item_id: 100,
+  title: 150,
+  description: 5000,
+  brand: 70,
+  material: 100,
+  mpn: 70,
+  group_id: 70,
+  item_group_title: 150,
+  color: 40,
+  size: 20,
+  pattern: 100,
+  seller_name: 70,
+};
+
+// Fields that must be absolute http(s) URLs
+const URL_FIELDS: FeedField[] = [
+  "url",
+  "image_url",
+  "video_link",
+  "model_3d_link",
+  "seller_url",
+  "seller_privacy_policy",
+  "seller_tos",
+  "return_policy",
+];
+
+// Allowed values for enum fields
+export const ENUM_VALUES: Partial<Record<FeedField, string[]>> = {
+  condition: ["new", "refurbished", "used"],
+  availability: ["in_stock", "out_of_stock", "preorder", "backorder"],
+  gender: ["male", "female", "unisex"],
+  age_group: ["newborn", "infant", "toddler", "kids", "adult"],
+};
+
+// "79.99 USD": a non-negative amount and an ISO 4217 currency code
+const PRICE_PATTERN = /^\d+(\.\d{1,2})?\s[A-Z]{3}$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const GTIN_PATTERN = /^\d{8,14}$/;
+// "750 ml": a positive amount and a unit
+const MEASURE_PATTERN = /^\d+(\.\d+)? [a-z]+$/;
+
+/**
+ * Check whether a value is an absolute http(s) URL
+ */
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a feed item against the spec
+ * Errors block the item from the feed; warnings are reported only
+ */
+export function validateFeedItem(item: OpenAIFeedItem): FeedValidationIssue[] {
+  const issues: FeedValidationIssue[] = [];
+  const error = (field: string, code: string, message: string) =>
+    issues.push({ severity: "error", field, code, message });
+  const warning = (field: string, code: string, message: string) =>
+    issues.push({ severity: "warning", field, code, message });
+
+  for (const field of REQUIRED_FIELDS) {
+    const value = item[field];
+    if (value === undefined || value === null || String(value).trim() === "") {
+      error(field, "missing_required", `${field} is required`);
+    }
+  }
+
+  for (const [field, maxLength] of Object.entries(FIELD_MAX_LENGTHS)) {
+    const value = item[field as FeedField];
+    if (typeof value === "string" && value.length > maxLength) {
+      error(
+        field,
+        "too_long",
+        `${field} is ${value.length} characters (max ${maxLength})`,
+      );
+    }
+  }
+
+  for (const field of URL_FIELDS) {
+    const value = item[field];
+    if (typeof value === "string" && value && !isValidUrl(value)) {
+      error(field, "invalid_url", `${field} "${value}" is not a valid URL`);
+    }
+  }
+  if (item.additional_image_urls?.split(",").some((u) => !isValidUrl(u))) {
+    error(
+      "additional_image_urls",
+      "invalid_url",
+      "additional_image_urls contains an invalid URL",
+    );
+  }
+
+  for (const [field, allowed] of Object.entries(ENUM_VALUES)) {
+    const value = item[field as FeedField];
+    if (typeof value === "string" && value && !allowed.includes(value)) {
+      error(
+        field,
+        "invalid_value",
+        `${field} "${value}" must be one of: ${allowed.join(", ")}`,
+      );
+    }
+  }
+
+  if (item.price && !PRICE_PATTERN.test(item.price)) {
+    error("price", "invalid_price", `Price "${item.price}" is not valid`);
+  }
+  if (item.sale_price) {
+    if (!PRICE_PATTERN.test(item.sale_price)) {
+      error(
+        "sale_price",
+        "invalid_price",
+        `Sale price "${item.sale_price}" is not valid`,
+      );
+    } else if (parseFloat(item.sale_price) > parseFloat(item.price)) {
+      error(
+        "sale_price",
+        "sale_price_above_price",
+        "Sale price is higher than the regular price",
+      );
+    }
+  }
+
+  for (const field of [
+    "unit_pricing_measure",
+    "unit_pricing_base_measure",
+  ] as const) {
+    const value = item[field];
+    if (value && !MEASURE_PATTERN.test(value)) {
+      error(field, "invalid_measure", `${field} "${value}" is not valid`);
+    }
+  }
+
+  if (item.store_country && !COUNTRY_PATTERN.test(item.store_country)) {
+    error(
+      "store_country",
+      "invalid_country",
+      `Store country "${item.store_country}" is not an ISO 3166-1 alpha-2 code`,
+    );
+  }
+  const invalidCountries = (item.target_countries || "")
+    .split(",")
+    .map((c) => c.trim())
+    .filter((c) => c && !COUNTRY_PATTERN.test(c));
+  if (invalidCountries.length > 0) {
+    error(
+      "target_countries",
+      "invalid_country",
+      `Target countries ${invalidCountries.join(", ")} are not ISO 3166-1 alpha-2 codes`,
+    );
+  }
+
+  if (item.availability === "preorder" && !item.availability_date) {
+    error(
+      "availability_date",
+      "missing_required",
+      "Preorder items need an availability date. Set the availability date metafield.",
+    );
+  }
+
+  if (
+    item.inventory_quantity !== undefined &&
+    (!Number.isInteger(item.inventory_quantity) || item.inventory_quantity < 0)
+  ) {
+    error(
+      "inventory_quantity",
+      "invalid_value",
+      "Inventory quantity must be a non-negative whole number",
+    );
+  }
+
+  if (
+    item.product_review_rating !== undefined &&
+    (item.product_review_rating < 0 || item.product_review_rating > 5)
+  ) {
+    error(
+      "product_review_rating",
+      "invalid_value",
+      "Review rating must be between 0 and 5",
+    );
+  }
+  if (
+    item.product_review_count !== undefined &&
+    (!Number.isInteger(item.product_review_count) ||
+      item.product_review_count < 0)
+  ) {
+    error(
+      "product_review_count",
+      "invalid_value",
+      "Review count must be a non-negative whole number",
+    );
+  }
+
+  if (item.gtin && !GTIN_PATTERN.test(item.gtin)) {
+    error("gtin", "invalid_gtin", `GTIN "${item.gtin}" is not 8-14 digits`);
+  }
+
+  // Checkout needs search eligibility and the merchant's policy pages
+  if (item.is_eligible_checkout) {
+    if (!item.is_eligible_search) {
+      error(
+        "is_eligible_checkout",
+        "checkout_without_search",
+        "Checkout eligibility requires search eligibility",
+      );
+    }
+    if (!item.seller_privacy_policy) {
+      error(
+        "seller_privacy_policy",
+        "missing_required",
+        "A privacy policy URL is required for checkout",
+      );
+    }
+    if (!item.seller_tos) {
+      error(
+        "seller_tos",
+        "missing_required",
+        "A terms of service URL is required for checkout",
+      );
+    }
+  }
+
+  // Recommended fields that improve matching in ChatGPT
+  if (!item.gtin && !item.mpn) {
+    warning(
+      "gtin",
+      "missing_identifier",
+      "No GTIN or MPN. Add a barcode or SKU to the variant.",
+    );
+  }
+  if (item.product_category === "Uncategorized") {
+    warning(
+      "product_category",
+      "missing_category",
+      "No category. Set a Shopify category or map the product type.",
+    );
+  }
+
+  return issues;
+}
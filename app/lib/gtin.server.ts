@@ -0,0 +1,57 @@
+/**
+ * GTIN (barcode) validation
+ * Supports UPC-A, EAN-8, EAN-13 and GTIN-14 with GS1 check digit validation
+ */
+
+export type GtinResult =
+  | { valid: true; gtin: string }
+  | { valid: false; reason: string };
+
+// Lengths that are valid as-is: EAN-8, UPC-A, EAN-13, GTIN-14
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * Calculate the GS1 check digit for a GTIN without its last digit
+ * Weights alternate 3,1,3,... starting from the rightmost digit
+ */
+function calculateCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate a barcode and normalize it to a 14-digit GTIN
+ * UPC-A codes that lost their leading zeros (9-11 digits) are zero-padded
+ */
+export function normalizeGtin(barcode: string): GtinResult {
+  const digits = barcode.replace(/[\s-]/g, "");
+
+  if (!/^\d+$/.test(digits)) {
+    return { valid: false, reason: "contains non-numeric characters" };
+  }
+  if (/^0+$/.test(digits)) {
+    return { valid: false, reason: "is all zeros" };
+  }
+
+  // Restore leading zeros stripped by spreadsheets from UPC-A codes
+  const padded =
+    digits.length > 8 && digits.length < 12 ? digits.padStart(12, "0") : digits;
+
+  if (!GTIN_LENGTHS.includes(padded.length)) {
+    return {
+      valid: false,
+      reason: `has ${digits.length} digits (expected 8, 12, 13 or 14)`,
+    };
+  }
+
+  const expected = calculateCheckDigit(padded.slice(0, -1));
+  if (Number(padded[padded.length - 1]) !== expected) {
+    return { valid: false, reason: "has an invalid check digit" };
+  }
+
+  return { valid: true, gtin: padded.padStart(14, "0") };
+}
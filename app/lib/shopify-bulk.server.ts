@@ -0,0 +1,432 @@
+/**
+ * Shopify bulk product fetcher
+ * Fetches large catalogs with a bulk operation instead of paginating, and
+ * streams the JSONL result back as products one at a time
+ *
+ * Bulk queries take no variables and allow at most five connections, nested
+ * at most two deep, so metafields and per-location stock are requested as
+ * aliased single fields and the query is built per shop from its fetch
+ * options. Market pricing and translations are aliased per country and
+ * locale too, so one operation covers every feed.
+ */
+
+import {
+  buildLocaleTranslationFields,
+  readLocaleTranslations,
+  type ProductFetchOptions,
+  type ShopifyContextualPricing,
+  type ShopifyMetafield,
+  type ShopifyProduct,
+  type ShopifyVariant,
+} from "./shopify-products.server";
+import { graphqlRequest } from "./shopify-graphql.server";
+
+// Catalogs with more variants than this are fetched with a bulk operation
+export const BULK_VARIANT_THRESHOLD = 5000;
+
+const CATALOG_SIZE_QUERY = `#graphql
+  query GetCatalogSize {
+    productVariantsCount {
+      count
+    }
+  }
+`;
+
+const BULK_RUN_MUTATION = `#graphql
+  mutation RunBulkProducts($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const BULK_OPERATION_QUERY = `#graphql
+  query GetBulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+      }
+    }
+  }
+`;
+
+export interface BulkOperation {
+  id: string;
+  // CREATED, RUNNING, COMPLETED, FAILED, CANCELED, EXPIRED, ...
+  status: string;
+  errorCode: string | null;
+  objectCount: string;
+  // Result file, null when the operation returned nothing or failed
+  url: string | null;
+}
+
+/**
+ * Alias metafields as single fields, e.g. mf0: metafield(namespace, key)
+ */
+function buildMetafieldFields(keys: string[]): string {
+  return keys
+    .map((identifier, index) => {
+      const [namespace, key] = identifier.split(".");
+      return `mf${index}: metafield(namespace: ${JSON.stringify(namespace)}, key: ${JSON.stringify(key)}) { namespace key value type }`;
+    })
+    .join("\n");
+}
+
+/**
+ * Collect aliased metafields back into the connection shape the mapper reads
+ */
+function collectMetafields(node: Record<string, any>): {
+  edges: Array<{ node: ShopifyMetafield }>;
+} {
+  const edges: Array<{ node: ShopifyMetafield }> = [];
+  for (const alias of Object.keys(node)) {
+    if (!/^mf\d+$/.test(alias)) continue;
+    if (node[alias]) edges.push({ node: node[alias] });
+    delete node[alias];
+  }
+  return { edges };
+}
+
+/**
+ * Alias market pricing per country, e.g. pricing_FR: contextualPricing(...)
+ */
+function buildMarketPricingFields(countries: string[]): string {
+  return countries
+    .map(
+      (country) =>
+        `pricing_${country}: contextualPricing(context: { country: ${country} }) { price { amount currencyCode } compareAtPrice { amount currencyCode } }`,
+    )
+    .join("\n");
+}
+
+/**
+ * Collect aliased market pricing into country → pricing
+ */
+function collectMarketPricing(
+  node: Record<string, any>,
+): Record<string, ShopifyContextualPricing> {
+  const pricing: Record<string, ShopifyContextualPricing> = {};
+  for (const alias of Object.keys(node)) {
+    const match = /^pricing_([A-Z]{2})$/.exec(alias);
+    if (!match) continue;
+    if (node[alias]) pricing[match[1]] = node[alias];
+    delete node[alias];
+  }
+  return pricing;
+}
+
+/**
+ * Alias stock per location, e.g. level0: inventoryLevel(locationId)
+ * An inventoryLevels connection would be nested three deep
+ */
+function buildInventoryLevelFields(locationIds: string[]): string {
+  return locationIds
+    .map(
+      (locationId, index) =>
+        `level${index}: inventoryLevel(locationId: ${JSON.stringify(locationId)}) { location { id } quantities(names: ["available"]) { name quantity } }`,
+    )
+    .join("\n");
+}
+
+/**
+ * Collect aliased stock levels back into the connection shape the mapper
+ * reads, leaving out locations the item isn't stocked at
+ */
+function collectInventoryLevels(
+  node: Record<string, any>,
+): NonNullable<ShopifyVariant["inventoryItem"]["inventoryLevels"]> {
+  const nodes = [];
+  for (const alias of Object.keys(node)) {
+    if (!/^level\d+$/.test(alias)) continue;
+    if (node[alias]) nodes.push(node[alias]);
+    delete node[alias];
+  }
+  return { nodes };
+}
+
+/**
+ * Move a product's aliased translations into localeTranslations, dropping
+ * the aliases from the product and its options
+ */
+function collectLocaleTranslations(
+  product: ShopifyProduct,
+  locales: string[],
+): void {
+  product.localeTranslations = readLocaleTranslations(product, locales);
+
+  const isAlias = (key: string) => key.startsWith("translations_");
+  const record = product as unknown as Record<string, unknown>;
+  for (const key of Object.keys(record).filter(isAlias)) delete record[key];
+  product.options = product.options.map(({ name, values }) => ({
+    name,
+    values,
+  }));
+}
+
+/**
+ * Select a product's pricing for one market country, as if it had been
+ * fetched for that country alone
+ * Returns null when the product was not fetched for the country, e.g. a
+ * market added while the bulk operation ran.
+ */
+export function selectMarketPricing(
+  product: ShopifyProduct,
+  country: string,
+): ShopifyProduct | null {
+  const edges = [];
+  for (const edge of product.variants.edges) {
+    const contextualPricing = edge.node.marketPricing?.[country];
+    if (!contextualPricing) return null;
+    edges.push({ node: { ...edge.node, contextualPricing } });
+  }
+  return { ...product, variants: { ...product.variants, edges } };
+}
+
+/**
+ * Build the bulk version of the products query
+ * Fetches the pricing of every market country and the translations of every
+ * locale in the fetch options, for generating the market and language feeds
+ * from the same operation.
+ */
+export function buildBulkProductsQuery(options: ProductFetchOptions): string {
+  const productMetafieldKeys = options.productMetafieldKeys || [];
+  const variantMetafieldKeys = options.variantMetafieldKeys || [];
+  const imageUrl = options.imageSize
+    ? `url(transform: { maxWidth: ${options.imageSize}, maxHeight: ${options.imageSize} })`
+    : "url";
+
+  return `
+    {
+      products {
+        edges {
+          node {
+            id
+            title
+            descriptionHtml
+            description
+            handle
+            vendor
+            productType
+            category { id fullName }
+            tags
+            status
+            ${options.publicationId ? `publishedOnPublication(publicationId: ${JSON.stringify(options.publicationId)})` : ""}
+            createdAt
+            updatedAt
+            onlineStoreUrl
+            options { name values }
+            ${buildLocaleTranslationFields(options.locales || [])}
+            ${buildMetafieldFields(productMetafieldKeys)}
+            collections {
+              edges { node { id handle title } }
+            }
+            media {
+              edges {
+                node {
+                  id
+                  mediaContentType
+                  ... on MediaImage {
+                    image { ${imageUrl} width height altText }
+                  }
+                  ... on Video {
+                    sources { url mimeType width height }
+                  }
+                  ... on ExternalVideo { originUrl }
+                  ... on Model3d {
+                    sources { url mimeType format }
+                  }
+                }
+              }
+            }
+            variants {
+              edges {
+                node {
+                  id
+                  title
+                  sku
+                  barcode
+                  price
+                  compareAtPrice
+                  ${buildMarketPricingFields(options.marketCountries || [])}
+                  unitPrice { amount currencyCode }
+                  unitPriceMeasurement {
+                    measuredType
+                    quantityUnit
+                    quantityValue
+                    referenceUnit
+                    referenceValue
+                  }
+                  availableForSale
+                  inventoryQuantity
+                  inventoryPolicy
+                  inventoryItem {
+                    tracked
+                    ${buildInventoryLevelFields(options.inventoryLocationIds || [])}
+                    measurement { weight { value unit } }
+                  }
+                  selectedOptions { name value }
+                  image { ${imageUrl} width height altText }
+                  ${buildMetafieldFields(variantMetafieldKeys)}
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Count the shop's variants, to choose between paginated and bulk fetching
+ */
+export async function fetchCatalogSize(admin: any): Promise<number> {
+  const data = await graphqlRequest(admin, CATALOG_SIZE_QUERY);
+  return data.productVariantsCount?.count || 0;
+}
+
+/**
+ * Start a bulk operation fetching all products
+ * Shopify sends the bulk_operations/finish webhook when the result is ready
+ */
+export async function startBulkProductFetch(
+  admin: any,
+  options: ProductFetchOptions = {},
+): Promise<string> {
+  const data = await graphqlRequest(admin, BULK_RUN_MUTATION, {
+    query: buildBulkProductsQuery(options),
+  });
+  const result = data.bulkOperationRunQuery;
+
+  if (!result?.bulkOperation) {
+    const message =
+      result?.userErrors
+        ?.map((e: { message: string }) => e.message)
+        .join(", ") || "Unknown error";
+    throw new Error(`Failed to start bulk operation: ${message}`);
+  }
+
+  return result.bulkOperation.id;
+}
+
+/**
+ * Fetch a bulk operation's status and result URL
+ */
+export async function fetchBulkOperation(
+  admin: any,
+  operationId: string,
+): Promise<BulkOperation | null> {
+  const data = await graphqlRequest(admin, BULK_OPERATION_QUERY, {
+    id: operationId,
+  });
+  return data.node || null;
+}
+
+/**
+ * Read a response body line by line without loading it into memory
+ */
+async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+
+  if (buffer.trim()) yield buffer;
+}
+
+/**
+ * Resource type of a Shopify GID, e.g. "ProductVariant"
+ */
+function getResourceType(gid: string): string {
+  return gid.split("/")[3] || "";
+}
+
+/**
+ * Stream the products in a bulk operation result
+ * Each nested node is a line of its own pointing to its parent through
+ * __parentId. Shopify writes nested nodes after their parent but not
+ * necessarily right after it, so products are only complete once the whole
+ * result has been read.
+ */
+export async function* streamBulkProducts(
+  url: string,
+  options: ProductFetchOptions = {},
+): AsyncGenerator<ShopifyProduct> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Failed to download bulk operation result: ${response.status}`,
+    );
+  }
+
+  // Products by ID, in the order they appear
+  const products = new Map<string, ShopifyProduct>();
+
+  for await (const line of readLines(response.body)) {
+    const node = JSON.parse(line);
+    const type = getResourceType(node.id || "");
+
+    if (type === "Product") {
+      const product = {
+        ...node,
+        metafields: collectMetafields(node),
+        collections: { edges: [] },
+        media: { edges: [] },
+        variants: { edges: [] },
+      } as ShopifyProduct;
+      if (options.locales?.length) {
+        collectLocaleTranslations(product, options.locales);
+      }
+      products.set(product.id, product);
+      continue;
+    }
+
+    const { __parentId, ...fields } = node;
+    const product = products.get(__parentId);
+    if (!product) continue;
+
+    if (type === "ProductVariant") {
+      const variant = {
+        ...fields,
+        metafields: collectMetafields(fields),
+        marketPricing: collectMarketPricing(fields),
+      } as ShopifyVariant;
+      if (options.inventoryLocationIds) {
+        variant.inventoryItem.inventoryLevels = collectInventoryLevels(
+          variant.inventoryItem,
+        );
+      }
+      product.variants.edges.push({ node: variant });
+    } else if (type === "Collection") {
+      product.collections.edges.push({ node: fields });
+    } else if (fields.mediaContentType) {
+      product.media.edges.push({ node: fields });
+    }
+  }
+
+  yield* products.values();
+}
@@ -0,0 +1,132 @@
+/**
+ * Shopify GraphQL requests
+ * Runs Admin API queries with cost-aware throttling and retries, so feed
+ * generation either gets complete data or fails outright
+ */
+
+// Attempts per request before giving up
+const MAX_ATTEMPTS = 5;
+// First retry delay, doubled on every attempt
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+// Latest query cost and throttle status per Admin API client
+const throttleStates = new WeakMap<
+  object,
+  { requestedCost: number; status: ThrottleStatus }
+>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter for a retry attempt (1-based)
+ */
+function backoffDelay(attempt: number): number {
+  const delay = BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(delay + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+}
+
+/**
+ * How long to wait for the bucket to refill enough for a query
+ */
+function throttleDelay(requestedCost: number, status: ThrottleStatus): number {
+  const missing =
+    Math.min(requestedCost, status.maximumAvailable) -
+    status.currentlyAvailable;
+  if (missing <= 0 || status.restoreRate <= 0) return 0;
+  return Math.ceil((missing / status.restoreRate) * 1000);
+}
+
+function isThrottled(errors: unknown): boolean {
+  return (
+    Array.isArray(errors) &&
+    errors.some((e) => e?.extensions?.code === "THROTTLED")
+  );
+}
+
+/**
+ * Whether a failed request is worth retrying: throttled or a server error
+ * The Admin API client throws on HTTP and GraphQL errors, keeping the
+ * status code and response body on the error
+ */
+function isRetriable(error: any): boolean {
+  const status = error?.response?.code ?? error?.response?.status;
+  if (status === 429 || status >= 500) return true;
+  return isThrottled(
+    error?.body?.errors?.graphQLErrors ?? error?.response?.body?.errors,
+  );
+}
+
+/**
+ * Run an Admin API query and return its data
+ * Waits when the previous query left too little of the cost bucket, and
+ * retries throttled and 5xx responses with exponential backoff. Throws when
+ * the query still fails or returns errors.
+ */
+export async function graphqlRequest<T = any>(
+  admin: any,
+  query: string,
+  variables?: Record<string, unknown>,
+): Promise<T> {
+  const throttle = throttleStates.get(admin);
+  if (throttle) {
+    const wait = throttleDelay(throttle.requestedCost, throttle.status);
+    if (wait > 0) await sleep(wait);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    let json: any;
+    try {
+      const response = await admin.graphql(
+        query,
+        variables ? { variables } : undefined,
+      );
+      json = await response.json();
+    } catch (error) {
+      if (attempt < MAX_ATTEMPTS && isRetriable(error)) {
+        console.log(
+          `[GraphQL] Request failed, retrying (attempt ${attempt + 1}/${MAX_ATTEMPTS})`,
+        );
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+      throw error;
+    }
+
+    const cost = json.extensions?.cost;
+    if (cost?.throttleStatus) {
+      throttleStates.set(admin, {
+        requestedCost: cost.requestedQueryCost,
+        status: cost.throttleStatus,
+      });
+    }
+
+    if (isThrottled(json.errors) && attempt < MAX_ATTEMPTS) {
+      const wait = cost?.throttleStatus
+        ? throttleDelay(cost.requestedQueryCost, cost.throttleStatus)
+        : 0;
+      console.log(
+        `[GraphQL] Throttled, retrying (attempt ${attempt + 1}/${MAX_ATTEMPTS})`,
+      );
+      await sleep(Math.max(wait, backoffDelay(attempt)));
+      continue;
+    }
+
+    if (json.errors?.length || !json.data) {
+      const message =
+        json.errors?.map((e: { message: string }) => e.message).join(", ") ||
+        "No data returned";
+      throw new Error(`GraphQL request failed: ${message}`);
+    }
+
+    return json.data;
+  }
+}
@@ -1,12 +1,157 @@
 /**
  * Shopify GraphQL product fetcher
- * Fetches all products with variants, images, and inventory data
+ * Fetches all products with variants, media, and inventory data
  */
 
+import { graphqlRequest } from "./shopify-graphql.server";
+
+// Gallery media fields, shared by the products and product media queries
+const MEDIA_FIELDS = `#graphql
+  fragment MediaFields on Media {
+    mediaContentType
+    ... on MediaImage {
+      image {
+        url(transform: { maxWidth: $imageSize, maxHeight: $imageSize })
+        width
+        height
+        altText
+      }
+    }
+    ... on Video {
+      sources {
+        url
+        mimeType
+        width
+        height
+      }
+    }
+    ... on ExternalVideo {
+      originUrl
+    }
+    ... on Model3d {
+      sources {
+        url
+        mimeType
+        format
+      }
+    }
+  }
+`;
+
+// Variant fields, shared by the products and product variants queries
+const VARIANT_FIELDS = `#graphql
+  fragment VariantFields on ProductVariant {
+    id
+    title
+    sku
+    barcode
+    price
+    compareAtPrice
+    contextualPricing(context: { country: $country })
+      @include(if: $withContextualPricing) {
+      price {
+        amount
+        currencyCode
+      }
+      compareAtPrice {
+        amount
+        currencyCode
+      }
+    }
+    unitPrice {
+      amount
+      currencyCode
+    }
+    unitPriceMeasurement {
+      measuredType
+      quantityUnit
+      quantityValue
+      referenceUnit
+      referenceValue
+    }
+    availableForSale
+    inventoryQuantity
+    inventoryPolicy
+    inventoryItem {
+      tracked
+      inventoryLevels(first: 50) @include(if: $withInventoryLevels) {
+        nodes {
+          location {
+            id
+          }
+          quantities(names: ["available"]) {
+            name
+            quantity
+          }
+        }
+      }
+      measurement {
+        weight {
+          value
+          unit
+        }
+      }
+    }
+    selectedOptions {
+      name
+      value
+    }
+    image {
+      url(transform: { maxWidth: $imageSize, maxHeight: $imageSize })
+      width
+      height
+      altText
+    }
+    metafields(first: 25, keys: $variantMetafieldKeys)
+      @include(if: $withVariantMetafields) {
+      edges {
+        node {
+          namespace
+          key
+          value
+          type
+        }
+      }
+    }
+  }
+`;
+
+// Products with more variants, media or collections than fit in one page are
+// completed with follow-up requests
+const VARIANTS_PAGE_SIZE = 100;
+const MEDIA_PAGE_SIZE = 50;
+const COLLECTIONS_PAGE_SIZE = 25;
+// Products per translations request
+const TRANSLATIONS_PAGE_SIZE = 50;
+
 // GraphQL query to fetch products with all needed data for the feed
 const PRODUCTS_QUERY = `#graphql
-  query GetProducts($cursor: String) {
-    products(first: 50, after: $cursor, sortKey: UPDATED_AT) {
+  query GetProducts(
+    $cursor: String
+    $productMetafieldKeys: [String!]
+    $variantMetafieldKeys: [String!]
+    $withProductMetafields: Boolean = false
+    $withVariantMetafields: Boolean = false
+    $country: CountryCode = US
+    $withContextualPricing: Boolean = false
+    $locale: String = "en"
+    $withTranslations: Boolean = false
+    $withInventoryLevels: Boolean = false
+    $imageSize: Int
+    # Placeholder default keeps the variable non-null when the filter is off
+    $publicationId: ID! = "gid://shopify/Publication/0"
+    $withPublication: Boolean = false
+    $first: Int = 50
+    $reverse: Boolean = false
+    $query: String
+  ) {
+    products(
+      first: $first
+      after: $cursor
+      sortKey: UPDATED_AT
+      reverse: $reverse
+      query: $query
+    ) {
       pageInfo {
         hasNextPage
         endCursor
@@ -20,51 +165,78 @@ const PRODUCTS_QUERY = `#graphql
           handle
           vendor
           productType
+          category {
+            id
+            fullName
+          }
           tags
           status
+          publishedOnPublication(publicationId: $publicationId)
+            @include(if: $withPublication)
           createdAt
           updatedAt
           onlineStoreUrl
+          translations(locale: $locale) @include(if: $withTranslations) {
+            key
+            value
+          }
           options {
             name
             values
+            translations(locale: $locale) @include(if: $withTranslations) {
+              key
+              value
+            }
+            optionValues @include(if: $withTranslations) {
+              name
+              translations(locale: $locale) {
+                key
+                value
+              }
+            }
           }
-          images(first: 10) {
+          metafields(first: 25, keys: $productMetafieldKeys)
+            @include(if: $withProductMetafields) {
             edges {
               node {
-                url
-                altText
+                namespace
+                key
+                value
+                type
               }
             }
           }
-          variants(first: 100) {
+          collections(first: ${COLLECTIONS_PAGE_SIZE}) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
             edges {
               node {
-                id
+                handle
                 title
-                sku
-                barcode
-                price
-                compareAtPrice
-                availableForSale
-                inventoryQuantity
-                inventoryPolicy
-                inventoryItem {
-                  measurement {
-                    weight {
-                      value
-                      unit
-                    }
-                  }
-                }
-                selectedOptions {
-                  name
-                  value
-                }
-                image {
-                  url
-                  altText
-                }
+              }
+            }
+          }
+          media(first: ${MEDIA_PAGE_SIZE}, sortKey: POSITION) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            edges {
+              node {
+                ...MediaFields
+              }
+            }
+          }
+          variants(first: ${VARIANTS_PAGE_SIZE}) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            edges {
+              node {
+                ...VariantFields
               }
             }
           }
@@ -72,6 +244,74 @@ const PRODUCTS_QUERY = `#graphql
       }
     }
   }
+  ${MEDIA_FIELDS}
+  ${VARIANT_FIELDS}
+`;
+
+const PRODUCT_VARIANTS_QUERY = `#graphql
+  query GetProductVariants(
+    $id: ID!
+    $cursor: String
+    $variantMetafieldKeys: [String!]
+    $withVariantMetafields: Boolean = false
+    $country: CountryCode = US
+    $withContextualPricing: Boolean = false
+    $withInventoryLevels: Boolean = false
+    $imageSize: Int
+  ) {
+    product(id: $id) {
+      variants(first: ${VARIANTS_PAGE_SIZE}, after: $cursor) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            ...VariantFields
+          }
+        }
+      }
+    }
+  }
+  ${VARIANT_FIELDS}
+`;
+
+const PRODUCT_MEDIA_QUERY = `#graphql
+  query GetProductMedia($id: ID!, $cursor: String, $imageSize: Int) {
+    product(id: $id) {
+      media(first: ${MEDIA_PAGE_SIZE}, after: $cursor, sortKey: POSITION) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            ...MediaFields
+          }
+        }
+      }
+    }
+  }
+  ${MEDIA_FIELDS}
+`;
+
+const PRODUCT_COLLECTIONS_QUERY = `#graphql
+  query GetProductCollections($id: ID!, $cursor: String) {
+    product(id: $id) {
+      collections(first: ${COLLECTIONS_PAGE_SIZE}, after: $cursor) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            handle
+            title
+          }
+        }
+      }
+    }
+  }
 `;
 
 const SHOP_QUERY = `#graphql
@@ -92,6 +332,85 @@ const SHOP_QUERY = `#graphql
   }
 `;
 
+const MARKETS_QUERY = `#graphql
+  query GetMarkets {
+    markets(first: 50) {
+      nodes {
+        id
+        name
+        status
+        conditions {
+          regionsCondition {
+            regions(first: 250) {
+              nodes {
+                ... on MarketRegionCountry {
+                  code
+                }
+              }
+            }
+          }
+        }
+        currencySettings {
+          baseCurrency {
+            currencyCode
+          }
+        }
+        webPresences(first: 1) {
+          nodes {
+            rootUrls {
+              locale
+              url
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const SHOP_LOCALES_QUERY = `#graphql
+  query GetShopLocales {
+    shopLocales {
+      locale
+      primary
+      published
+    }
+  }
+`;
+
+const LOCATIONS_QUERY = `#graphql
+  query GetLocations {
+    locations(first: 50) {
+      nodes {
+        id
+        name
+        isActive
+      }
+    }
+  }
+`;
+
+const PUBLICATIONS_QUERY = `#graphql
+  query GetPublications {
+    publications(first: 25) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const PRODUCT_TYPES_QUERY = `#graphql
+  query GetProductTypes {
+    productTypes(first: 250) {
+      edges {
+        node
+      }
+    }
+  }
+`;
+
 // Shop policies query removed - policies are no longer available in Shopify API 2026-04
 // Users can manually enter policy URLs in the settings page
 
@@ -103,24 +422,61 @@ export interface ShopifyProduct {
   handle: string;
   vendor: string;
   productType: string;
+  // Shopify Standard Product Taxonomy category, null when unset
+  category: { id: string; fullName: string } | null;
   tags: string[];
   status: string;
   createdAt: string;
   updatedAt: string;
   onlineStoreUrl: string | null;
-  options: Array<{ name: string; values: string[] }>;
-  images: {
+  // Only present when filtering by publication
+  publishedOnPublication?: boolean;
+  // Translations are only present when fetching for a locale
+  translations?: ShopifyTranslation[];
+  // Translations per locale, only present when fetched for several locales
+  // at once
+  localeTranslations?: Record<string, ProductLocaleTranslations>;
+  options: Array<{
+    name: string;
+    values: string[];
+    translations?: ShopifyTranslation[];
+    optionValues?: Array<{
+      name: string;
+      translations: ShopifyTranslation[];
+    }>;
+  }>;
+  // Only present when metafield keys are requested
+  metafields?: {
+    edges: Array<{
+      node: ShopifyMetafield;
+    }>;
+  };
+  collections: {
     edges: Array<{
-      node: { url: string; altText: string | null };
+      node: { handle: string; title: string };
     }>;
+    pageInfo?: ShopifyPageInfo;
+  };
+  // In gallery order
+  media: {
+    edges: Array<{
+      node: ShopifyMedia;
+    }>;
+    pageInfo?: ShopifyPageInfo;
   };
   variants: {
     edges: Array<{
       node: ShopifyVariant;
     }>;
+    pageInfo?: ShopifyPageInfo;
   };
 }
 
+export interface ShopifyPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
 export interface ShopifyVariant {
   id: string;
   title: string;
@@ -128,10 +484,32 @@ export interface ShopifyVariant {
   barcode: string | null;
   price: string;
   compareAtPrice: string | null;
+  // Only present when fetching for a specific country
+  contextualPricing?: ShopifyContextualPricing;
+  // Country → pricing, only present when fetched for several countries at
+  // once
+  marketPricing?: Record<string, ShopifyContextualPricing>;
+  // Set when the variant has a unit price measurement
+  unitPrice: ShopifyMoney | null;
+  unitPriceMeasurement: {
+    measuredType: string | null;
+    quantityUnit: string | null;
+    quantityValue: number;
+    referenceUnit: string | null;
+    referenceValue: number;
+  } | null;
   availableForSale: boolean;
   inventoryQuantity: number | null;
   inventoryPolicy: string;
   inventoryItem: {
+    tracked: boolean;
+    // Only present when per-location inventory is requested
+    inventoryLevels?: {
+      nodes: Array<{
+        location: { id: string };
+        quantities: Array<{ name: string; quantity: number }>;
+      }>;
+    };
     measurement: {
       weight: {
         value: number;
@@ -140,7 +518,136 @@ export interface ShopifyVariant {
     };
   };
   selectedOptions: Array<{ name: string; value: string }>;
-  image: { url: string; altText: string | null } | null;
+  image: ShopifyImage | null;
+  // Only present when metafield keys are requested
+  metafields?: {
+    edges: Array<{
+      node: ShopifyMetafield;
+    }>;
+  };
+}
+
+export interface ShopifyImage {
+  url: string;
+  // Original dimensions, null while Shopify is still processing the image
+  width: number | null;
+  height: number | null;
+  altText: string | null;
+}
+
+export type ShopifyMedia =
+  | { mediaContentType: "IMAGE"; image: ShopifyImage | null }
+  | {
+      mediaContentType: "VIDEO";
+      sources: Array<{
+        url: string;
+        mimeType: string;
+        width: number;
+        height: number;
+      }>;
+    }
+  | { mediaContentType: "EXTERNAL_VIDEO"; originUrl: string }
+  | {
+      mediaContentType: "MODEL_3D";
+      sources: Array<{ url: string; mimeType: string; format: string }>;
+    };
+
+export interface ShopifyTranslation {
+  key: string;
+  value: string | null;
+}
+
+/**
+ * A product's translations into one locale, shaped like those fetched for a
+ * single locale
+ */
+export interface ProductLocaleTranslations {
+  translations: ShopifyTranslation[];
+  options: Array<{
+    name: string;
+    translations: ShopifyTranslation[];
+    optionValues: Array<{
+      name: string;
+      translations: ShopifyTranslation[];
+    }>;
+  }>;
+}
+
+export interface ShopifyMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+export interface ShopifyContextualPricing {
+  price: ShopifyMoney;
+  compareAtPrice: ShopifyMoney | null;
+}
+
+export interface ShopifyMetafield {
+  namespace: string;
+  key: string;
+  value: string;
+  type: string;
+}
+
+export interface ProductFetchOptions {
+  // Metafields to fetch, as "namespace.key" identifiers
+  productMetafieldKeys?: string[];
+  variantMetafieldKeys?: string[];
+  // Country to fetch contextual (market) pricing for
+  country?: string;
+  // Locale to fetch product and option translations for
+  locale?: string;
+  // Countries and locales to fetch pricing and translations for at once,
+  // only supported by bulk fetching
+  marketCountries?: string[];
+  locales?: string[];
+  // Locations to fetch available stock at
+  inventoryLocationIds?: string[];
+  // Longest side in pixels to request image URLs at
+  imageSize?: number;
+  // Publication GID to check whether each product is published to
+  publicationId?: string;
+  // Only fetch products updated after this time (ms since epoch)
+  updatedAfter?: number;
+  // Only fetch these products, by numeric ID
+  productIds?: string[];
+}
+
+/**
+ * A product whose variants, media or collections did not fit in the first page
+ */
+export interface ProductExtraPages {
+  productId: string;
+  title: string;
+  // Follow-up requests made for each connection
+  variantRequests: number;
+  mediaRequests: number;
+  collectionRequests: number;
+}
+
+export interface ShopifyPublication {
+  id: string;
+  name: string;
+}
+
+export interface ShopifyLocation {
+  id: string;
+  name: string;
+}
+
+/**
+ * An active Shopify Market and the countries it sells to
+ */
+export interface ShopMarket {
+  // The market's first country, whose contextual pricing the feed uses and
+  // whose code keys the feed
+  country: string;
+  countries: string[];
+  marketName: string;
+  currencyCode: string;
+  // Storefront root URL for the market (e.g. https://shop.com/en-ca), if any
+  rootUrl: string | null;
 }
 
 export interface ShopInfo {
@@ -161,31 +668,167 @@ export interface ShopPolicies {
   refundPolicy: { url: string } | null;
 }
 
+/**
+ * Build the GraphQL variables for the optional parts of PRODUCTS_QUERY
+ */
+function buildProductQueryVariables(options: ProductFetchOptions) {
+  const productMetafieldKeys = options.productMetafieldKeys || [];
+  const variantMetafieldKeys = options.variantMetafieldKeys || [];
+
+  return {
+    productMetafieldKeys,
+    variantMetafieldKeys,
+    withProductMetafields: productMetafieldKeys.length > 0,
+    withVariantMetafields: variantMetafieldKeys.length > 0,
+    ...(options.country && {
+      country: options.country,
+      withContextualPricing: true,
+    }),
+    ...(options.locale && {
+      locale: options.locale,
+      withTranslations: true,
+    }),
+    withInventoryLevels: Boolean(options.inventoryLocationIds),
+    imageSize: options.imageSize || null,
+    ...(options.publicationId && {
+      publicationId: options.publicationId,
+      withPublication: true,
+    }),
+    ...(options.updatedAfter && {
+      query: `updated_at:>'${new Date(options.updatedAfter).toISOString()}'`,
+    }),
+    ...(options.productIds?.length && {
+      query: options.productIds.map((id) => `id:${id}`).join(" OR "),
+    }),
+  };
+}
+
+/**
+ * Fetch the remaining pages of one of a product's nested connections
+ * Returns the number of follow-up requests made
+ */
+async function fetchRemainingPages(
+  admin: any,
+  product: ShopifyProduct,
+  connection: "variants" | "media" | "collections",
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<number> {
+  const target: { edges: unknown[]; pageInfo?: ShopifyPageInfo } =
+    product[connection];
+  let requests = 0;
+
+  while (target.pageInfo?.hasNextPage) {
+    const data = await graphqlRequest(admin, query, {
+      ...variables,
+      id: product.id,
+      cursor: target.pageInfo.endCursor,
+    });
+    const page = data.product?.[connection];
+    requests++;
+
+    if (!page) {
+      throw new Error(`Product ${product.id} disappeared while fetching`);
+    }
+
+    target.edges.push(...page.edges);
+    target.pageInfo = page.pageInfo;
+  }
+
+  return requests;
+}
+
+/**
+ * Fetch the variants, media and collections beyond the first page for a product
+ * Returns what was fetched, or null when the product fit in one page
+ */
+async function completeProductPages(
+  admin: any,
+  product: ShopifyProduct,
+  queryVariables: ReturnType<typeof buildProductQueryVariables>,
+): Promise<ProductExtraPages | null> {
+  const {
+    variantMetafieldKeys,
+    withVariantMetafields,
+    withInventoryLevels,
+    imageSize,
+  } = queryVariables;
+
+  const variantRequests = await fetchRemainingPages(
+    admin,
+    product,
+    "variants",
+    PRODUCT_VARIANTS_QUERY,
+    {
+      variantMetafieldKeys,
+      withVariantMetafields,
+      withInventoryLevels,
+      imageSize,
+      ...("country" in queryVariables && {
+        country: queryVariables.country,
+        withContextualPricing: queryVariables.withContextualPricing,
+      }),
+    },
+  );
+  const mediaRequests = await fetchRemainingPages(
+    admin,
+    product,
+    "media",
+    PRODUCT_MEDIA_QUERY,
+    { imageSize },
+  );
+  const collectionRequests = await fetchRemainingPages(
+    admin,
+    product,
+    "collections",
+    PRODUCT_COLLECTIONS_QUERY,
+    {},
+  );
+
+  if (variantRequests === 0 && mediaRequests === 0 && collectionRequests === 0)
+    return null;
+
+  return {
+    productId: product.id,
+    title: product.title,
+    variantRequests,
+    mediaRequests,
+    collectionRequests,
+  };
+}
+
 /**
  * Fetch all products from Shopify using cursor-based pagination
+ * Products with more variants, media or collections than fit in one page are completed
+ * with follow-up requests, listed in extraPages when given. onPage is
+ * called with the running product count after every page.
  */
-export async function fetchAllProducts(admin: any): Promise<ShopifyProduct[]> {
+export async function fetchAllProducts(
+  admin: any,
+  options: ProductFetchOptions = {},
+  extraPages?: ProductExtraPages[],
+  onPage?: (productsFetched: number) => Promise<void> | void,
+): Promise<ShopifyProduct[]> {
   const allProducts: ShopifyProduct[] = [];
+  const queryVariables = buildProductQueryVariables(options);
   let cursor: string | null = null;
   let hasNextPage = true;
 
   while (hasNextPage) {
-    const response: any = await admin.graphql(PRODUCTS_QUERY, {
-      variables: { cursor },
+    const data: any = await graphqlRequest(admin, PRODUCTS_QUERY, {
+      ...queryVariables,
+      cursor,
     });
 
-    const json: any = await response.json();
-    const data: any = json.data;
-
-    if (!data?.products) {
-      console.error("Failed to fetch products:", json.errors);
-      break;
-    }
-
-    const products = data.products.edges.map(
+    const products: ShopifyProduct[] = data.products.edges.map(
       (edge: { node: ShopifyProduct }) => edge.node,
     );
+    for (const product of products) {
+      const extra = await completeProductPages(admin, product, queryVariables);
+      if (extra) extraPages?.push(extra);
+    }
     allProducts.push(...products);
+    await onPage?.(allProducts.length);
 
     hasNextPage = data.products.pageInfo.hasNextPage;
     cursor = data.products.pageInfo.endCursor;
@@ -194,13 +837,238 @@ export async function fetchAllProducts(admin: any): Promise<ShopifyProduct[]> {
   return allProducts;
 }
 
+/**
+ * Alias of a locale's translations field, e.g. translations_pt_BR
+ */
+export function localeTranslationsAlias(locale: string): string {
+  return `translations_${locale.replace(/[^A-Za-z0-9]/g, "_")}`;
+}
+
+/**
+ * Product translation fields for several locales, one alias per locale
+ * translations(locale:) only takes one locale, so each gets its own alias.
+ */
+export function buildLocaleTranslationFields(locales: string[]): string {
+  if (locales.length === 0) return "";
+
+  const translations = locales
+    .map(
+      (locale) =>
+        `${localeTranslationsAlias(locale)}: translations(locale: ${JSON.stringify(locale)}) { key value }`,
+    )
+    .join("\n");
+
+  return `
+    ${translations}
+    options {
+      name
+      ${translations}
+      optionValues {
+        name
+        ${translations}
+      }
+    }
+  `;
+}
+
+/**
+ * Read a product node's aliased translation fields, see
+ * buildLocaleTranslationFields
+ * Locales the node was not fetched for are left out.
+ */
+export function readLocaleTranslations(
+  node: any,
+  locales: string[],
+): Record<string, ProductLocaleTranslations> {
+  const result: Record<string, ProductLocaleTranslations> = {};
+
+  for (const locale of locales) {
+    const alias = localeTranslationsAlias(locale);
+    if (!(alias in node)) continue;
+
+    result[locale] = {
+      translations: node[alias] || [],
+      options: (node.options || []).map((option: any) => ({
+        name: option.name,
+        translations: option[alias] || [],
+        optionValues: (option.optionValues || []).map((value: any) => ({
+          name: value.name,
+          translations: value[alias] || [],
+        })),
+      })),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Fetch products' translations into all the given locales and set them as
+ * each product's localeTranslations
+ * One pass over the products instead of fetching the catalog again for
+ * every locale.
+ */
+export async function fetchProductTranslations(
+  admin: any,
+  products: ShopifyProduct[],
+  locales: string[],
+): Promise<void> {
+  if (locales.length === 0) return;
+
+  const query = `#graphql
+    query GetProductTranslations($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Product {
+          id
+          ${buildLocaleTranslationFields(locales)}
+        }
+      }
+    }
+  `;
+
+  for (let i = 0; i < products.length; i += TRANSLATIONS_PAGE_SIZE) {
+    const page = products.slice(i, i + TRANSLATIONS_PAGE_SIZE);
+    const data = await graphqlRequest(admin, query, {
+      ids: page.map((product) => product.id),
+    });
+    const nodes = new Map<string, any>(
+      (data.nodes || []).filter(Boolean).map((node: any) => [node.id, node]),
+    );
+
+    for (const product of page) {
+      const node = nodes.get(product.id);
+      // Products deleted meanwhile keep the default language
+      product.localeTranslations = node
+        ? readLocaleTranslations(node, locales)
+        : {};
+    }
+  }
+}
+
+/**
+ * Fetch a single product, by handle or the most recently updated one
+ * Used to preview feed output on the settings page
+ */
+export async function fetchSampleProduct(
+  admin: any,
+  handle: string | null,
+  options: ProductFetchOptions = {},
+): Promise<ShopifyProduct | null> {
+  const queryVariables = buildProductQueryVariables(options);
+  // Quoted so handles are matched whole, whatever characters they hold
+  const quotedHandle = handle && JSON.stringify(handle);
+  const data = await graphqlRequest(admin, PRODUCTS_QUERY, {
+    ...queryVariables,
+    first: 1,
+    reverse: true,
+    query: quotedHandle ? `handle:${quotedHandle}` : "status:active",
+  });
+  const product: ShopifyProduct | null = data.products.edges[0]?.node || null;
+
+  if (product) {
+    await completeProductPages(admin, product, queryVariables);
+  }
+  return product;
+}
+
+/**
+ * Fetch all active markets with their countries
+ * Each market becomes one feed with the market's currency and URL
+ */
+export async function fetchMarkets(admin: any): Promise<ShopMarket[]> {
+  const data = await graphqlRequest(admin, MARKETS_QUERY);
+  const markets: any[] = data.markets?.nodes || [];
+
+  const shopMarkets: ShopMarket[] = [];
+  for (const market of markets) {
+    if (market.status !== "ACTIVE") continue;
+
+    const regions: Array<{ code?: string }> =
+      market.conditions?.regionsCondition?.regions?.nodes || [];
+    const countries = regions
+      .map((region) => region.code)
+      .filter((code): code is string => Boolean(code));
+    if (countries.length === 0) continue;
+
+    shopMarkets.push({
+      country: countries[0],
+      countries,
+      marketName: market.name,
+      currencyCode: market.currencySettings?.baseCurrency?.currencyCode,
+      rootUrl: market.webPresences?.nodes?.[0]?.rootUrls?.[0]?.url || null,
+    });
+  }
+
+  return shopMarkets;
+}
+
+/**
+ * Fetch the published, non-default languages of the shop
+ */
+export async function fetchAlternateLocales(admin: any): Promise<string[]> {
+  const data = await graphqlRequest(admin, SHOP_LOCALES_QUERY);
+  const locales: Array<{
+    locale: string;
+    primary: boolean;
+    published: boolean;
+  }> = data.shopLocales || [];
+
+  return locales.filter((l) => l.published && !l.primary).map((l) => l.locale);
+}
+
+/**
+ * Fetch the shop's active inventory locations
+ */
+export async function fetchLocations(admin: any): Promise<ShopifyLocation[]> {
+  const data = await graphqlRequest(admin, LOCATIONS_QUERY);
+  const locations: Array<ShopifyLocation & { isActive: boolean }> =
+    data.locations?.nodes || [];
+
+  return locations
+    .filter((l) => l.isActive)
+    .map((l) => ({ id: l.id, name: l.name }));
+}
+
+/**
+ * Fetch the shop's sales channel publications
+ */
+export async function fetchPublications(
+  admin: any,
+): Promise<ShopifyPublication[]> {
+  const data = await graphqlRequest(admin, PUBLICATIONS_QUERY);
+  return data.publications?.nodes || [];
+}
+
+/**
+ * Resolve the publication the feed is limited to
+ * Falls back to the Online Store when none is chosen or the chosen one is gone
+ */
+export function resolvePublicationId(
+  publications: ShopifyPublication[],
+  publicationId: string | null,
+): string | undefined {
+  return (
+    publications.find((p) => p.id === publicationId)?.id ||
+    publications.find((p) => p.name === "Online Store")?.id
+  );
+}
+
+/**
+ * Fetch the distinct product types used in the shop
+ */
+export async function fetchProductTypes(admin: any): Promise<string[]> {
+  const data = await graphqlRequest(admin, PRODUCT_TYPES_QUERY);
+  return (data.productTypes?.edges || [])
+    .map((edge: { node: string }) => edge.node)
+    .filter(Boolean);
+}
+
 /**
  * Fetch shop info from Shopify
  */
 export async function fetchShopInfo(admin: any): Promise<ShopInfo> {
-  const response = await admin.graphql(SHOP_QUERY);
-  const json = await response.json();
-  return json.data.shop;
+  const data = await graphqlRequest(admin, SHOP_QUERY);
+  return data.shop;
 }
 
 /**
@@ -4,7 +4,7 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { useFetcher, useLoaderData } from "react-router";
+import { useFetcher, useLoaderData, useRevalidator } from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
@@ -13,7 +13,29 @@ import {
   autoPopulateSettings,
   generateFeed,
   getCachedFeed,
+  getMarketFeeds,
+  getLocaleFeeds,
 } from "../lib/feed-service.server";
+import { getFeedIssueSummary } from "../lib/feed-issues.server";
+import { countTombstones } from "../lib/feed-tombstones.server";
+import {
+  getDeadFeedJobs,
+  retryDeadFeedJobs,
+  type FeedJob,
+} from "../lib/feed-queue.server";
+import {
+  trackFeedJob,
+  getRunningFeedJob,
+  getFeedJobHistory,
+  type FeedJobStage,
+  type FeedJobStatus,
+  type FeedJobTrigger,
+} from "../lib/feed-jobs.server";
+import type { FeedSkipReason } from "../lib/feed-mapper.server";
+import type { ProductExtraPages } from "../lib/shopify-products.server";
+
+// How often the page refreshes while a generation runs
+const PROGRESS_POLL_MS = 3000;
 
 export const loader = async ({ request, context }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
@@ -27,21 +49,54 @@ export const loader = async ({ request, context }: LoaderFunctionArgs) => {
     settings = await autoPopulateSettings(db, session.shop, admin);
   }
 
-  // Get cached feed info
-  const cachedFeed = await getCachedFeed(db, session.shop);
+  // Get cached feed info and issues from the last generation
+  const [
+    cachedFeed,
+    marketFeeds,
+    localeFeeds,
+    issueSummary,
+    removedCount,
+    deadJobs,
+    runningJob,
+    jobHistory,
+  ] = await Promise.all([
+    getCachedFeed(db, session.shop),
+    getMarketFeeds(db, session.shop),
+    getLocaleFeeds(db, session.shop),
+    getFeedIssueSummary(db, session.shop),
+    countTombstones(db, session.shop),
+    getDeadFeedJobs(db, session.shop),
+    getRunningFeedJob(db, session.shop),
+    getFeedJobHistory(db, session.shop),
+  ]);
 
   // Build the feed URL
   const appUrl = context.cloudflare.env.SHOPIFY_APP_URL || "";
   const shopSlug = session.shop.replace(".myshopify.com", "");
   const feedUrl = `${appUrl}/feed/${shopSlug}/products.jsonl`;
+  const marketFeedUrls = marketFeeds.map((feed) => ({
+    ...feed,
+    url: `${appUrl}/feed/${shopSlug}/${feed.country.toLowerCase()}/products.jsonl`,
+  }));
+  const localeFeedUrls = localeFeeds.map((feed) => ({
+    ...feed,
+    url: `${appUrl}/feed/${shopSlug}/locales/${feed.locale}/products.jsonl`,
+  }));
 
   return {
     shop: session.shop,
     settings,
     feedUrl,
+    marketFeedUrls,
+    localeFeedUrls,
+    issueSummary,
+    deadJobs,
+    runningJob,
+    jobHistory,
     feedStatus: cachedFeed
       ? {
-          productCount: cachedFeed.productCount,
+          productCount: cachedFeed.productCount - removedCount,
+          removedCount,
           generatedAt: cachedFeed.generatedAt,
         }
       : null,
@@ -56,10 +111,23 @@ export const action = async ({ request, context }: ActionFunctionArgs) => {
   const actionType = formData.get("action");
 
   if (actionType === "generate") {
-    const result = await generateFeed(db, session.shop, admin);
+    const result = await trackFeedJob(
+      db,
+      session.shop,
+      "manual",
+      (onProgress) => generateFeed(db, session.shop, admin, { onProgress }),
+    );
+    if (!result) {
+      return { action: "generate", success: false, busy: true };
+    }
     return { action: "generate", ...result };
   }
 
+  if (actionType === "retry-jobs") {
+    await retryDeadFeedJobs(db, context.cloudflare.env.FEED_JOBS, session.shop);
+    return { action: "retry-jobs", success: true };
+  }
+
   if (actionType === "sync-settings") {
     const settings = await autoPopulateSettings(db, session.shop, admin);
     return { action: "sync-settings", success: true, settings };
@@ -68,25 +136,116 @@ export const action = async ({ request, context }: ActionFunctionArgs) => {
   return { action: "unknown", success: false };
 };
 
+const JOB_LABELS: Record<FeedJob["type"], string> = {
+  changes: "Product updates",
+  generate: "Feed generation",
+  bulk: "Large catalog generation",
+};
+
+const TRIGGER_LABELS: Record<FeedJobTrigger, string> = {
+  manual: "Manual",
+  webhook: "Product update",
+  cron: "Scheduled",
+};
+
+const STATUS_BADGES: Record<
+  FeedJobStatus,
+  { tone: "success" | "info" | "critical"; label: string }
+> = {
+  running: { tone: "info", label: "Running" },
+  completed: { tone: "success", label: "Completed" },
+  waiting: { tone: "info", label: "Bulk fetch started" },
+  failed: { tone: "critical", label: "Failed" },
+};
+
+const STAGE_LABELS: Record<FeedJobStage, string> = {
+  fetching: "Fetching products",
+  mapping: "Mapping products",
+  secondary_feeds: "Generating market and language feeds",
+  storing: "Saving the feed",
+};
+
+const SKIP_REASON_LABELS: Record<FeedSkipReason, string> = {
+  unpublished: "not published",
+  no_image: "no image",
+  rule: "excluded by rules",
+  invalid: "invalid",
+  duplicate: "duplicate ID",
+};
+
+// Large products named in the history before summing up the rest
+const LARGE_PRODUCTS_SHOWN = 3;
+
+function formatLargeProducts(products: ProductExtraPages[]): string {
+  const titles = products
+    .slice(0, LARGE_PRODUCTS_SHOWN)
+    .map((p) => p.title)
+    .join(", ");
+  const more = products.length - LARGE_PRODUCTS_SHOWN;
+  return `Needed extra requests: ${titles}${more > 0 ? ` and ${more} more` : ""}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
 export default function Index() {
-  const { shop, settings, feedUrl, feedStatus } =
-    useLoaderData<typeof loader>();
+  const {
+    shop,
+    settings,
+    feedUrl,
+    marketFeedUrls,
+    localeFeedUrls,
+    feedStatus,
+    issueSummary,
+    deadJobs,
+    runningJob,
+    jobHistory,
+  } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
+  const revalidator = useRevalidator();
   const shopify = useAppBridge();
 
   const isGenerating =
     fetcher.state !== "idle" && fetcher.formData?.get("action") === "generate";
+  const isRetrying =
+    fetcher.state !== "idle" &&
+    fetcher.formData?.get("action") === "retry-jobs";
+
+  // Refresh the progress while a generation runs
+  const isRunning = isGenerating || runningJob !== null;
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => {
+      if (revalidator.state === "idle") revalidator.revalidate();
+    }, PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, revalidator]);
 
   useEffect(() => {
     if (fetcher.data?.action === "generate") {
-      if ((fetcher.data as any).success) {
-        shopify.toast.show("Feed generated successfully!");
-      } else {
-        shopify.toast.show("Feed generation failed. Check logs.", {
+      if ((fetcher.data as any).busy) {
+        shopify.toast.show("A feed generation is already running", {
           isError: true,
         });
+      } else if ((fetcher.data as any).pending) {
+        shopify.toast.show(
+          "Large catalog: the feed is being generated in the background",
+        );
+      } else if ((fetcher.data as any).success) {
+        shopify.toast.show("Feed generated successfully!");
+      } else {
+        shopify.toast.show(
+          "Feed generation failed. The previous feed is still published.",
+          { isError: true },
+        );
       }
     }
+    if (fetcher.data?.action === "retry-jobs") {
+      shopify.toast.show("Feed regeneration queued");
+    }
   }, [fetcher.data, shopify]);
 
   const formatDate = useCallback((timestamp: number) => {
@@ -109,6 +268,12 @@ export default function Index() {
                   {feedStatus.productCount} product variants indexed
                 </s-text>
               </s-stack>
+              {feedStatus.removedCount > 0 && (
+                <s-text color="subdued">
+                  {feedStatus.removedCount} removed variants are listed as out
+                  of stock until their grace period ends
+                </s-text>
+              )}
               <s-text color="subdued">
                 Last generated: {formatDate(feedStatus.generatedAt)}
               </s-text>
@@ -123,6 +288,21 @@ export default function Index() {
           </s-stack>
         )}
 
+        {runningJob && (
+          <s-box padding-block-start="base">
+            <s-stack direction="inline" gap="small-200">
+              <s-spinner size="base" />
+              <s-text>
+                {runningJob.stage
+                  ? STAGE_LABELS[runningJob.stage]
+                  : "Starting feed generation"}
+                {runningJob.productsFetched > 0 &&
+                  ` (${runningJob.productsFetched} products fetched)`}
+              </s-text>
+            </s-stack>
+          </s-box>
+        )}
+
         <s-box padding-block-start="base">
           <fetcher.Form method="POST">
             <input type="hidden" name="action" value="generate" />
@@ -130,6 +310,7 @@ export default function Index() {
               variant="primary"
               type="submit"
               {...(isGenerating ? { loading: true } : {})}
+              {...(runningJob && !isGenerating ? { disabled: true } : {})}
             >
               {feedStatus ? "Regenerate Feed" : "Generate Feed"}
             </s-button>
@@ -160,12 +341,234 @@ export default function Index() {
         </s-section>
       )}
 
+      {/* Market Feeds */}
+      {feedStatus && marketFeedUrls.length > 0 && (
+        <s-section heading="Market Feeds">
+          <s-paragraph>
+            Each of your Shopify Markets has its own feed with local prices,
+            currency and storefront URLs. The feed URL of any country in a
+            market serves that market's feed:
+          </s-paragraph>
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Countries</s-table-header>
+              <s-table-header>Currency</s-table-header>
+              <s-table-header>Variants</s-table-header>
+              <s-table-header>Feed URL</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {marketFeedUrls.map((feed) => (
+                <s-table-row key={feed.country}>
+                  <s-table-cell>{feed.countries.join(", ")}</s-table-cell>
+                  <s-table-cell>{feed.currencyCode}</s-table-cell>
+                  <s-table-cell>{feed.productCount}</s-table-cell>
+                  <s-table-cell>{feed.url}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      {/* Language Feeds */}
+      {feedStatus && localeFeedUrls.length > 0 && (
+        <s-section heading="Language Feeds">
+          <s-paragraph>
+            Each published language has its own feed with translated titles,
+            descriptions and options:
+          </s-paragraph>
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Language</s-table-header>
+              <s-table-header>Variants</s-table-header>
+              <s-table-header>Feed URL</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {localeFeedUrls.map((feed) => (
+                <s-table-row key={feed.locale}>
+                  <s-table-cell>{feed.locale}</s-table-cell>
+                  <s-table-cell>{feed.productCount}</s-table-cell>
+                  <s-table-cell>{feed.url}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      {/* Feed Validation */}
+      {issueSummary.groups.length > 0 && (
+        <s-section heading="Feed Validation">
+          {issueSummary.blockedItems > 0 ? (
+            <s-banner tone="critical">
+              {issueSummary.blockedItems} product variants were left out of the
+              feed because they don't meet the OpenAI feed spec. Fix the errors
+              below in Shopify and regenerate the feed.
+            </s-banner>
+          ) : (
+            <s-banner tone="warning">
+              Some product variants have data problems. They are still in the
+              feed, but fixing them in Shopify improves how they appear in
+              ChatGPT.
+            </s-banner>
+          )}
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Severity</s-table-header>
+              <s-table-header>Field</s-table-header>
+              <s-table-header>Problem</s-table-header>
+              <s-table-header>Items</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {issueSummary.groups.map((group) => (
+                <s-table-row
+                  key={`${group.severity}-${group.field}-${group.code}`}
+                >
+                  <s-table-cell>
+                    <s-badge
+                      tone={group.severity === "error" ? "critical" : "warning"}
+                    >
+                      {group.severity === "error" ? "Error" : "Warning"}
+                    </s-badge>
+                  </s-table-cell>
+                  <s-table-cell>{group.field}</s-table-cell>
+                  <s-table-cell>
+                    <s-link
+                      href={`/app/issues?severity=${group.severity}&field=${group.field}&code=${group.code}`}
+                    >
+                      {group.code}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>{group.count}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+          <s-box padding-block-start="base">
+            <s-link href="/app/issues">
+              View all {issueSummary.errors + issueSummary.warnings} issues
+            </s-link>
+          </s-box>
+        </s-section>
+      )}
+
+      {/* Generation History */}
+      {jobHistory.length > 0 && (
+        <s-section heading="Generation History">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Started</s-table-header>
+              <s-table-header>Trigger</s-table-header>
+              <s-table-header>Status</s-table-header>
+              <s-table-header>Duration</s-table-header>
+              <s-table-header>Products</s-table-header>
+              <s-table-header>Items</s-table-header>
+              <s-table-header>Skipped</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {jobHistory.map((job) => {
+                const skipped = Object.entries(job.itemsSkipped).filter(
+                  ([, count]) => count,
+                );
+                return (
+                  <s-table-row key={job.id}>
+                    <s-table-cell>{formatDate(job.startedAt)}</s-table-cell>
+                    <s-table-cell>{TRIGGER_LABELS[job.trigger]}</s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block" gap="small-200">
+                        <s-badge tone={STATUS_BADGES[job.status].tone}>
+                          {STATUS_BADGES[job.status].label}
+                        </s-badge>
+                        {job.error && (
+                          <s-text color="subdued">{job.error}</s-text>
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>
+                      {job.finishedAt
+                        ? formatDuration(job.finishedAt - job.startedAt)
+                        : "-"}
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block" gap="small-200">
+                        <s-text>{job.productsFetched}</s-text>
+                        {job.largeProducts.length > 0 && (
+                          <s-text color="subdued">
+                            {formatLargeProducts(job.largeProducts)}
+                          </s-text>
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>{job.itemsMapped}</s-table-cell>
+                    <s-table-cell>
+                      {skipped.length > 0
+                        ? skipped
+                            .map(
+                              ([reason, count]) =>
+                                `${count} ${SKIP_REASON_LABELS[reason as FeedSkipReason]}`,
+                            )
+                            .join(", ")
+                        : "-"}
+                    </s-table-cell>
+                  </s-table-row>
+                );
+              })}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      {/* Failed Jobs */}
+      {deadJobs.length > 0 && (
+        <s-section heading="Failed Jobs">
+          <s-banner tone="critical">
+            Some background feed updates kept failing and were stopped. The
+            published feed may be missing recent product changes. Retry to
+            regenerate the feed.
+          </s-banner>
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Job</s-table-header>
+              <s-table-header>Error</s-table-header>
+              <s-table-header>Attempts</s-table-header>
+              <s-table-header>Failed</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {deadJobs.map((deadJob) => (
+                <s-table-row key={deadJob.id}>
+                  <s-table-cell>{JOB_LABELS[deadJob.job.type]}</s-table-cell>
+                  <s-table-cell>
+                    {deadJob.error || "Unknown error"}
+                  </s-table-cell>
+                  <s-table-cell>{deadJob.attempts}</s-table-cell>
+                  <s-table-cell>{formatDate(deadJob.failedAt)}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+          <s-box padding-block-start="base">
+            <fetcher.Form method="POST">
+              <input type="hidden" name="action" value="retry-jobs" />
+              <s-button
+                type="submit"
+                {...(isRetrying ? { loading: true } : {})}
+              >
+                Retry
+              </s-button>
+            </fetcher.Form>
+          </s-box>
+        </s-section>
+      )}
+
       {/* How It Works */}
       <s-section heading="How It Works">
         <s-unordered-list>
           <s-list-item>
             Configure your feed settings under the Settings tab
           </s-list-item>
+          <s-list-item>
+            Optionally limit which products are published under the Rules tab
+          </s-list-item>
           <s-list-item>
             Click "Generate Feed" to build your product feed from Shopify data
           </s-list-item>
@@ -173,7 +576,12 @@ export default function Index() {
             Share the feed URL with OpenAI for ingestion
           </s-list-item>
           <s-list-item>
-            The feed auto-regenerates when products change via webhooks
+            The feed updates shortly after products change, retrying in the
+            background when Shopify is unavailable
+          </s-list-item>
+          <s-list-item>
+            The whole feed is also rebuilt on the schedule set under the
+            Settings tab
           </s-list-item>
         </s-unordered-list>
       </s-section>
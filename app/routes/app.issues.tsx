@@ -0,0 +1,120 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getFeedIssues,
+  type FeedIssueSeverity,
+} from "../lib/feed-issues.server";
+
+// Maximum number of issues listed on the page
+const ISSUE_LIMIT = 250;
+
+export const loader = async ({ request, context }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = context.cloudflare.env.DB;
+
+  const url = new URL(request.url);
+  const severity = url.searchParams.get("severity");
+  const filter = {
+    severity:
+      severity === "error" || severity === "warning"
+        ? (severity as FeedIssueSeverity)
+        : undefined,
+    field: url.searchParams.get("field") || undefined,
+    code: url.searchParams.get("code") || undefined,
+  };
+
+  const issues = await getFeedIssues(db, session.shop, filter, ISSUE_LIMIT);
+
+  return { issues, filter, limit: ISSUE_LIMIT };
+};
+
+export default function Issues() {
+  const { issues, filter, limit } = useLoaderData<typeof loader>();
+
+  const isFiltered = Boolean(filter.severity || filter.field || filter.code);
+
+  return (
+    <s-page heading="Feed Issues">
+      <s-link slot={"breadcrumbActions" as Lowercase<string>} href="/app">
+        Home
+      </s-link>
+
+      <s-section
+        heading={
+          isFiltered
+            ? `${filter.field || "All fields"}: ${filter.code || "all problems"}`
+            : "All Issues"
+        }
+      >
+        <s-paragraph>
+          <s-text color="subdued">
+            Errors keep a product variant out of the feed. Warnings are reported
+            only. Fix the product in Shopify, then regenerate the feed.
+          </s-text>
+        </s-paragraph>
+
+        {isFiltered && (
+          <s-box padding-block-end="base">
+            <s-link href="/app/issues">Show all issues</s-link>
+          </s-box>
+        )}
+
+        {issues.length === 0 ? (
+          <s-paragraph>No issues found in the latest feed.</s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Product</s-table-header>
+              <s-table-header>Item ID</s-table-header>
+              <s-table-header>Severity</s-table-header>
+              <s-table-header>Field</s-table-header>
+              <s-table-header>Problem</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {issues.map((issue) => (
+                <s-table-row
+                  key={`${issue.item_id}-${issue.field}-${issue.code}`}
+                >
+                  <s-table-cell>
+                    <s-link
+                      href={`shopify://admin/products/${issue.product_id}/variants/${issue.variant_id}`}
+                      target="_blank"
+                    >
+                      {issue.title}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>{issue.item_id}</s-table-cell>
+                  <s-table-cell>
+                    <s-badge
+                      tone={issue.severity === "error" ? "critical" : "warning"}
+                    >
+                      {issue.severity === "error" ? "Error" : "Warning"}
+                    </s-badge>
+                  </s-table-cell>
+                  <s-table-cell>{issue.field}</s-table-cell>
+                  <s-table-cell>{issue.message}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+
+        {issues.length === limit && (
+          <s-paragraph>
+            <s-text color="subdued">Showing the first {limit} issues.</s-text>
+          </s-paragraph>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
+
+export function ErrorBoundary() {
+  return <div>Something went wrong loading feed issues. Please try again.</div>;
+}
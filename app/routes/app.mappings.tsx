@@ -0,0 +1,328 @@
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getMetafieldMappings,
+  saveMetafieldMapping,
+  deleteMetafieldMapping,
+  MAPPABLE_FEED_FIELDS,
+  type MappableFeedField,
+} from "../lib/feed-metafields.server";
+import {
+  getCategoryMappings,
+  saveCategoryMapping,
+  deleteCategoryMapping,
+} from "../lib/feed-categories.server";
+import { fetchProductTypes } from "../lib/shopify-products.server";
+
+export const loader = async ({ request, context }: LoaderFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const db = context.cloudflare.env.DB;
+
+  const [metafieldMappings, categoryMappings, productTypes] = await Promise.all(
+    [
+      getMetafieldMappings(db, session.shop),
+      getCategoryMappings(db, session.shop),
+      fetchProductTypes(admin),
+    ],
+  );
+
+  return {
+    metafieldMappings,
+    categoryMappings,
+    productTypes,
+    feedFields: MAPPABLE_FEED_FIELDS,
+  };
+};
+
+export const action = async ({ request, context }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = context.cloudflare.env.DB;
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  if (actionType === "save-metafield") {
+    const feedField = formData.get("feed_field") as MappableFeedField;
+    const namespace = ((formData.get("namespace") as string) || "").trim();
+    const key = ((formData.get("key") as string) || "").trim();
+
+    if (!(feedField in MAPPABLE_FEED_FIELDS) || !namespace || !key) {
+      return {
+        action: "save-metafield",
+        success: false,
+        error: "Namespace, key and feed field are required",
+      };
+    }
+
+    await saveMetafieldMapping(db, session.shop, {
+      owner: formData.get("owner") === "variant" ? "variant" : "product",
+      namespace,
+      key,
+      feed_field: feedField,
+    });
+    return { action: "save-metafield", success: true };
+  }
+
+  if (actionType === "delete-metafield") {
+    await deleteMetafieldMapping(
+      db,
+      session.shop,
+      parseInt(formData.get("id") as string, 10),
+    );
+    return { action: "delete-metafield", success: true };
+  }
+
+  if (actionType === "save-category") {
+    const productType = ((formData.get("product_type") as string) || "").trim();
+    const category = ((formData.get("category") as string) || "").trim();
+
+    if (!productType || !category) {
+      return {
+        action: "save-category",
+        success: false,
+        error: "Product type and category are required",
+      };
+    }
+
+    await saveCategoryMapping(db, session.shop, productType, category);
+    return { action: "save-category", success: true };
+  }
+
+  if (actionType === "delete-category") {
+    await deleteCategoryMapping(
+      db,
+      session.shop,
+      parseInt(formData.get("id") as string, 10),
+    );
+    return { action: "delete-category", success: true };
+  }
+
+  return { action: "unknown", success: false };
+};
+
+export default function Mappings() {
+  const { metafieldMappings, categoryMappings, productTypes, feedFields } =
+    useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const savingAction =
+    fetcher.state !== "idle" ? fetcher.formData?.get("action") : null;
+
+  const unmappedTypes = productTypes.filter(
+    (type) =>
+      !categoryMappings.some(
+        (m) => m.product_type.toLowerCase() === type.toLowerCase(),
+      ),
+  );
+
+  useEffect(() => {
+    if (
+      fetcher.data?.action === "save-metafield" ||
+      fetcher.data?.action === "save-category"
+    ) {
+      if (fetcher.data.success) {
+        shopify.toast.show(
+          "Mapping saved! Regenerate your feed to apply changes.",
+        );
+      } else {
+        shopify.toast.show((fetcher.data as any).error || "Invalid mapping", {
+          isError: true,
+        });
+      }
+    }
+  }, [fetcher.data, shopify]);
+
+  return (
+    <s-page heading="Field Mapping">
+      <s-link slot={"breadcrumbActions" as Lowercase<string>} href="/app">
+        Home
+      </s-link>
+
+      {/* Metafield mappings */}
+      <s-section heading="Metafields">
+        <s-paragraph>
+          <s-text color="subdued">
+            Fill feed attributes from your product and variant metafields. When
+            both are mapped, the variant metafield wins.
+          </s-text>
+        </s-paragraph>
+
+        {metafieldMappings.length > 0 ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Feed field</s-table-header>
+              <s-table-header>Source</s-table-header>
+              <s-table-header>Metafield</s-table-header>
+              <s-table-header>Actions</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {metafieldMappings.map((mapping) => (
+                <s-table-row key={mapping.id}>
+                  <s-table-cell>{feedFields[mapping.feed_field]}</s-table-cell>
+                  <s-table-cell>
+                    {mapping.owner === "variant" ? "Variant" : "Product"}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {mapping.namespace}.{mapping.key}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <fetcher.Form method="POST">
+                      <input
+                        type="hidden"
+                        name="action"
+                        value="delete-metafield"
+                      />
+                      <input type="hidden" name="id" value={mapping.id} />
+                      <s-button type="submit" tone="critical">
+                        Delete
+                      </s-button>
+                    </fetcher.Form>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-paragraph>No metafield mappings yet.</s-paragraph>
+        )}
+      </s-section>
+
+      <s-section heading="Add Metafield Mapping">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="action" value="save-metafield" />
+
+          <s-stack direction="block" gap="base">
+            <s-select label="Feed field" name="feed_field" value="brand">
+              {Object.entries(feedFields).map(([value, label]) => (
+                <s-option key={value} value={value}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+
+            <s-select label="Source" name="owner" value="product">
+              <s-option value="product">Product metafield</s-option>
+              <s-option value="variant">Variant metafield</s-option>
+            </s-select>
+
+            <s-text-field
+              label="Namespace"
+              name="namespace"
+              placeholder="custom"
+            />
+
+            <s-text-field label="Key" name="key" placeholder="material" />
+          </s-stack>
+
+          <s-box padding-block-start="base">
+            <s-button
+              variant="primary"
+              type="submit"
+              {...(savingAction === "save-metafield" ? { loading: true } : {})}
+            >
+              Save Mapping
+            </s-button>
+          </s-box>
+        </fetcher.Form>
+      </s-section>
+
+      {/* Category mappings */}
+      <s-section heading="Product Categories">
+        <s-paragraph>
+          <s-text color="subdued">
+            Products use their Shopify category when one is set. For products
+            without a category, map your product types to a Shopify Standard
+            Product Taxonomy path.
+          </s-text>
+        </s-paragraph>
+
+        {categoryMappings.length > 0 ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Product type</s-table-header>
+              <s-table-header>Category</s-table-header>
+              <s-table-header>Actions</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {categoryMappings.map((mapping) => (
+                <s-table-row key={mapping.id}>
+                  <s-table-cell>{mapping.product_type}</s-table-cell>
+                  <s-table-cell>{mapping.category}</s-table-cell>
+                  <s-table-cell>
+                    <fetcher.Form method="POST">
+                      <input
+                        type="hidden"
+                        name="action"
+                        value="delete-category"
+                      />
+                      <input type="hidden" name="id" value={mapping.id} />
+                      <s-button type="submit" tone="critical">
+                        Delete
+                      </s-button>
+                    </fetcher.Form>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-paragraph>No category mappings yet.</s-paragraph>
+        )}
+      </s-section>
+
+      <s-section heading="Add Category Mapping">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="action" value="save-category" />
+
+          <s-stack direction="block" gap="base">
+            {unmappedTypes.length > 0 ? (
+              <s-select label="Product type" name="product_type">
+                {unmappedTypes.map((type) => (
+                  <s-option key={type} value={type}>
+                    {type}
+                  </s-option>
+                ))}
+              </s-select>
+            ) : (
+              <s-text-field label="Product type" name="product_type" />
+            )}
+
+            <s-text-field
+              label="Category"
+              name="category"
+              placeholder="Apparel & Accessories > Clothing > Shirts & Tops"
+              details="Full taxonomy path, separated by >"
+            />
+          </s-stack>
+
+          <s-box padding-block-start="base">
+            <s-button
+              variant="primary"
+              type="submit"
+              {...(savingAction === "save-category" ? { loading: true } : {})}
+            >
+              Save Mapping
+            </s-button>
+          </s-box>
+        </fetcher.Form>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
+
+export function ErrorBoundary() {
+  return <div>Something went wrong loading mappings. Please try again.</div>;
+}
@@ -0,0 +1,264 @@
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getFeedRules,
+  createFeedRule,
+  setFeedRuleEnabled,
+  deleteFeedRule,
+  isValidRuleOperator,
+  isValidRuleValue,
+  RULE_FIELDS,
+  RULE_OPERATORS,
+  type FeedRuleAction,
+  type FeedRuleField,
+  type FeedRuleOperator,
+} from "../lib/feed-rules.server";
+
+export const loader = async ({ request, context }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = context.cloudflare.env.DB;
+
+  const rules = await getFeedRules(db, session.shop);
+
+  return {
+    rules,
+    fields: RULE_FIELDS,
+    operators: RULE_OPERATORS,
+  };
+};
+
+export const action = async ({ request, context }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = context.cloudflare.env.DB;
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  if (actionType === "create") {
+    const field = formData.get("field") as FeedRuleField;
+    const operator = formData.get("operator") as FeedRuleOperator;
+    const value = ((formData.get("value") as string) || "").trim();
+
+    if (!(field in RULE_FIELDS) || !(operator in RULE_OPERATORS)) {
+      return { action: "create", success: false, error: "Invalid rule" };
+    }
+    if (!isValidRuleOperator(field, operator)) {
+      return {
+        action: "create",
+        success: false,
+        error: `"${RULE_OPERATORS[operator]}" can't be used with ${RULE_FIELDS[field]}`,
+      };
+    }
+    if (!value) {
+      return { action: "create", success: false, error: "Value is required" };
+    }
+    if (!isValidRuleValue(operator, value)) {
+      return {
+        action: "create",
+        success: false,
+        error:
+          operator === "between"
+            ? "Enter two numbers separated by a comma, e.g. 10,50"
+            : "Enter a number",
+      };
+    }
+
+    await createFeedRule(db, session.shop, {
+      action: formData.get("rule_action") === "include" ? "include" : "exclude",
+      field,
+      operator,
+      value,
+    });
+    return { action: "create", success: true };
+  }
+
+  if (actionType === "toggle") {
+    await setFeedRuleEnabled(
+      db,
+      session.shop,
+      parseInt(formData.get("id") as string, 10),
+      formData.get("enabled") === "true",
+    );
+    return { action: "toggle", success: true };
+  }
+
+  if (actionType === "delete") {
+    await deleteFeedRule(
+      db,
+      session.shop,
+      parseInt(formData.get("id") as string, 10),
+    );
+    return { action: "delete", success: true };
+  }
+
+  return { action: "unknown", success: false };
+};
+
+const ACTION_LABELS: Record<FeedRuleAction, string> = {
+  include: "Only include",
+  exclude: "Exclude",
+};
+
+export default function Rules() {
+  const { rules, fields, operators } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const isCreating =
+    fetcher.state !== "idle" && fetcher.formData?.get("action") === "create";
+
+  useEffect(() => {
+    if (fetcher.data?.action === "create") {
+      if (fetcher.data.success) {
+        shopify.toast.show(
+          "Rule added! Regenerate your feed to apply changes.",
+        );
+      } else {
+        shopify.toast.show((fetcher.data as any).error || "Invalid rule", {
+          isError: true,
+        });
+      }
+    }
+  }, [fetcher.data, shopify]);
+
+  return (
+    <s-page heading="Feed Rules">
+      <s-link slot={"breadcrumbActions" as Lowercase<string>} href="/app">
+        Home
+      </s-link>
+
+      {/* Rule list */}
+      <s-section heading="Rules">
+        <s-paragraph>
+          <s-text color="subdued">
+            Rules are applied in order to every product variant. A variant is
+            left out of the feed by the first rule that removes it.
+          </s-text>
+        </s-paragraph>
+
+        {rules.length > 0 ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Rule</s-table-header>
+              <s-table-header>Removed variants</s-table-header>
+              <s-table-header>Status</s-table-header>
+              <s-table-header>Actions</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {rules.map((rule) => (
+                <s-table-row key={rule.id}>
+                  <s-table-cell>
+                    {ACTION_LABELS[rule.action]} when {fields[rule.field]}{" "}
+                    {operators[rule.operator]} "{rule.value}"
+                  </s-table-cell>
+                  <s-table-cell>
+                    {rule.last_evaluated_at !== null
+                      ? rule.excluded_count
+                      : "Not evaluated yet"}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-badge tone={rule.enabled ? "success" : "neutral"}>
+                      {rule.enabled ? "Active" : "Disabled"}
+                    </s-badge>
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-stack direction="inline" gap="small">
+                      <fetcher.Form method="POST">
+                        <input type="hidden" name="action" value="toggle" />
+                        <input type="hidden" name="id" value={rule.id} />
+                        <input
+                          type="hidden"
+                          name="enabled"
+                          value={rule.enabled ? "false" : "true"}
+                        />
+                        <s-button type="submit">
+                          {rule.enabled ? "Disable" : "Enable"}
+                        </s-button>
+                      </fetcher.Form>
+                      <fetcher.Form method="POST">
+                        <input type="hidden" name="action" value="delete" />
+                        <input type="hidden" name="id" value={rule.id} />
+                        <s-button type="submit" tone="critical">
+                          Delete
+                        </s-button>
+                      </fetcher.Form>
+                    </s-stack>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-paragraph>
+            No rules yet. Every active product with an image is included in the
+            feed.
+          </s-paragraph>
+        )}
+      </s-section>
+
+      {/* New rule */}
+      <s-section heading="Add Rule">
+        <fetcher.Form method="POST">
+          <input type="hidden" name="action" value="create" />
+
+          <s-stack direction="block" gap="base">
+            <s-select label="Action" name="rule_action" value="exclude">
+              <s-option value="exclude">Exclude matching variants</s-option>
+              <s-option value="include">
+                Only include matching variants
+              </s-option>
+            </s-select>
+
+            <s-select label="Field" name="field" value="tag">
+              {Object.entries(fields).map(([value, label]) => (
+                <s-option key={value} value={value}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+
+            <s-select label="Condition" name="operator" value="equals">
+              {Object.entries(operators).map(([value, label]) => (
+                <s-option key={value} value={value}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+
+            <s-text-field
+              label="Value"
+              name="value"
+              details='Separate alternatives with commas. Use * as a wildcard with "matches pattern", and "min,max" with "is between".'
+            />
+          </s-stack>
+
+          <s-box padding-block-start="base">
+            <s-button
+              variant="primary"
+              type="submit"
+              {...(isCreating ? { loading: true } : {})}
+            >
+              Add Rule
+            </s-button>
+          </s-box>
+        </fetcher.Form>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
+
+export function ErrorBoundary() {
+  return <div>Something went wrong loading rules. Please try again.</div>;
+}
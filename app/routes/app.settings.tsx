@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import type {
   ActionFunctionArgs,
   HeadersFunction,
@@ -13,14 +13,82 @@ import {
   updateFeedSettings,
   autoPopulateSettings,
 } from "../lib/feed-service.server";
+import {
+  getShippingOverrides,
+  createShippingOverride,
+  deleteShippingOverride,
+} from "../lib/feed-shipping.server";
+import {
+  getTemplateMetafieldKeys,
+  TEMPLATE_PLACEHOLDERS,
+} from "../lib/feed-templates.server";
+import {
+  buildItemText,
+  type FeedAvailability,
+} from "../lib/feed-mapper.server";
+import {
+  fetchSampleProduct,
+  fetchLocations,
+  fetchPublications,
+  resolvePublicationId,
+} from "../lib/shopify-products.server";
+import {
+  clearItemIds,
+  ITEM_ID_STRATEGIES,
+  type ItemIdStrategy,
+} from "../lib/feed-item-ids.server";
+import {
+  getLastScheduledRun,
+  REGENERATION_INTERVALS,
+  type RegenerationInterval,
+} from "../lib/feed-schedule.server";
+
+// Number of variants shown in the template preview
+const PREVIEW_VARIANTS = 3;
+
+// How variants that keep selling past zero stock can be listed
+const OVERSOLD_OPTIONS: Record<FeedAvailability, string> = {
+  backorder: "Backorder",
+  preorder: "Preorder",
+  in_stock: "In stock",
+  out_of_stock: "Out of stock",
+};
+
+// "namespace.key" metafield identifier
+const METAFIELD_IDENTIFIER = /^[\w-]+\.[\w-]+$/;
 
 export const loader = async ({ request, context }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const db = context.cloudflare.env.DB;
 
-  const settings = await getFeedSettings(db, session.shop);
-
-  return { shop: session.shop, settings };
+  const [
+    settings,
+    shippingOverrides,
+    locations,
+    publications,
+    lastScheduledRun,
+  ] = await Promise.all([
+    getFeedSettings(db, session.shop),
+    getShippingOverrides(db, session.shop),
+    fetchLocations(admin),
+    fetchPublications(admin),
+    getLastScheduledRun(db, session.shop),
+  ]);
+
+  return {
+    shop: session.shop,
+    settings,
+    shippingOverrides,
+    locations,
+    publications,
+    publicationId:
+      resolvePublicationId(publications, settings.publication_id) || "",
+    placeholders: TEMPLATE_PLACEHOLDERS,
+    oversoldOptions: OVERSOLD_OPTIONS,
+    itemIdStrategies: ITEM_ID_STRATEGIES,
+    regenerationIntervals: REGENERATION_INTERVALS,
+    lastScheduledRun,
+  };
 };
 
 export const action = async ({ request, context }: ActionFunctionArgs) => {
@@ -31,6 +99,45 @@ export const action = async ({ request, context }: ActionFunctionArgs) => {
   const actionType = formData.get("action");
 
   if (actionType === "save") {
+    const metafieldSetting = (name: string) =>
+      ((formData.get(name) as string) || "").trim() || null;
+    const preorderMetafield = metafieldSetting("preorder_metafield");
+    const availabilityDateMetafield = metafieldSetting(
+      "availability_date_metafield",
+    );
+    const reviewRatingMetafield = metafieldSetting("review_rating_metafield");
+    const reviewCountMetafield = metafieldSetting("review_count_metafield");
+    const unitPricingMetafield = metafieldSetting("unit_pricing_metafield");
+    for (const identifier of [
+      preorderMetafield,
+      availabilityDateMetafield,
+      reviewRatingMetafield,
+      reviewCountMetafield,
+      unitPricingMetafield,
+    ]) {
+      if (identifier && !METAFIELD_IDENTIFIER.test(identifier)) {
+        return {
+          action: "save",
+          success: false,
+          error: `"${identifier}" is not a metafield in namespace.key format`,
+        };
+      }
+    }
+    const oversold = formData.get("oversold_availability") as FeedAvailability;
+    const itemIdStrategy = formData.get("item_id_strategy") as ItemIdStrategy;
+    const regenerationInterval = formData.get(
+      "regeneration_interval",
+    ) as RegenerationInterval;
+
+    // A new ID strategy only takes effect once the stored IDs are forgotten
+    const current = await getFeedSettings(db, session.shop);
+    if (
+      itemIdStrategy in ITEM_ID_STRATEGIES &&
+      itemIdStrategy !== current.item_id_strategy
+    ) {
+      await clearItemIds(db, session.shop);
+    }
+
     await updateFeedSettings(db, session.shop, {
       enable_search: formData.get("enable_search") === "true",
       enable_checkout: formData.get("enable_checkout") === "true",
@@ -49,11 +156,137 @@ export const action = async ({ request, context }: ActionFunctionArgs) => {
       accepts_exchanges: formData.get("accepts_exchanges") === "true",
       store_country: (formData.get("store_country") as string) || "US",
       target_countries: (formData.get("target_countries") as string) || "US",
+      enable_market_feeds: formData.get("enable_market_feeds") === "true",
+      enable_locale_feeds: formData.get("enable_locale_feeds") === "true",
+      shipping_handling_days: parseInt(
+        (formData.get("shipping_handling_days") as string) || "1",
+        10,
+      ),
+      title_template:
+        ((formData.get("title_template") as string) || "").trim() || null,
+      description_template:
+        ((formData.get("description_template") as string) || "").trim() || null,
+      preorder_tag:
+        ((formData.get("preorder_tag") as string) || "").trim() || null,
+      preorder_metafield: preorderMetafield,
+      availability_date_metafield: availabilityDateMetafield,
+      oversold_availability:
+        oversold in OVERSOLD_OPTIONS ? oversold : "backorder",
+      safety_stock: Math.max(
+        parseInt((formData.get("safety_stock") as string) || "0", 10) || 0,
+        0,
+      ),
+      inventory_location_ids: formData.getAll("inventory_location_ids").length
+        ? (formData.getAll("inventory_location_ids") as string[])
+        : null,
+      review_rating_metafield: reviewRatingMetafield,
+      review_count_metafield: reviewCountMetafield,
+      review_rating_scale:
+        parseFloat(formData.get("review_rating_scale") as string) || 5,
+      image_min_resolution: Math.max(
+        parseInt((formData.get("image_min_resolution") as string) || "0", 10) ||
+          0,
+        0,
+      ),
+      unit_pricing_metafield: unitPricingMetafield,
+      publication_id: (formData.get("publication_id") as string) || null,
+      tombstone_grace_days: Math.max(
+        parseInt((formData.get("tombstone_grace_days") as string) || "0", 10) ||
+          0,
+        0,
+      ),
+      ...(itemIdStrategy in ITEM_ID_STRATEGIES && {
+        item_id_strategy: itemIdStrategy,
+      }),
+      ...(regenerationInterval in REGENERATION_INTERVALS && {
+        regeneration_interval: regenerationInterval,
+      }),
     });
 
     return { action: "save", success: true };
   }
 
+  if (actionType === "create-shipping-override") {
+    const country = ((formData.get("country") as string) || "")
+      .trim()
+      .toUpperCase();
+    const service = ((formData.get("service") as string) || "").trim();
+    const price = parseFloat(formData.get("price") as string);
+
+    if (!/^[A-Z]{2}$/.test(country) || !service || isNaN(price)) {
+      return {
+        action: "create-shipping-override",
+        success: false,
+        error: "Country code, service and price are required",
+      };
+    }
+
+    const parseDays = (name: string) => {
+      const days = parseInt(formData.get(name) as string, 10);
+      return isNaN(days) ? null : days;
+    };
+
+    await createShippingOverride(db, session.shop, {
+      country,
+      region: ((formData.get("region") as string) || "").trim() || null,
+      service,
+      price,
+      min_transit_days: parseDays("min_transit_days"),
+      max_transit_days: parseDays("max_transit_days"),
+    });
+    return { action: "create-shipping-override", success: true };
+  }
+
+  if (actionType === "delete-shipping-override") {
+    await deleteShippingOverride(
+      db,
+      session.shop,
+      parseInt(formData.get("id") as string, 10),
+    );
+    return { action: "delete-shipping-override", success: true };
+  }
+
+  if (actionType === "preview") {
+    const templates = {
+      title_template: (formData.get("title_template") as string) || null,
+      description_template:
+        (formData.get("description_template") as string) || null,
+    };
+    const handle = ((formData.get("handle") as string) || "")
+      .trim()
+      .replace(/[^\w-]/g, "");
+
+    const metafieldKeys = getTemplateMetafieldKeys([
+      templates.title_template,
+      templates.description_template,
+    ]);
+    const product = await fetchSampleProduct(admin, handle || null, {
+      productMetafieldKeys: metafieldKeys.product,
+      variantMetafieldKeys: metafieldKeys.variant,
+    });
+    if (!product) {
+      return {
+        action: "preview",
+        success: false,
+        error: handle ? `No product with handle "${handle}"` : "No products",
+      };
+    }
+
+    return {
+      action: "preview",
+      success: true,
+      preview: {
+        productTitle: product.title,
+        items: product.variants.edges
+          .slice(0, PREVIEW_VARIANTS)
+          .map((edge) => ({
+            id: edge.node.id,
+            ...buildItemText(product, edge.node, templates),
+          })),
+      },
+    };
+  }
+
   if (actionType === "sync-shopify") {
     await autoPopulateSettings(db, session.shop, admin);
     return { action: "sync-shopify", success: true };
@@ -63,21 +296,52 @@ export const action = async ({ request, context }: ActionFunctionArgs) => {
 };
 
 export default function Settings() {
-  const { settings } = useLoaderData<typeof loader>();
+  const {
+    settings,
+    shippingOverrides,
+    locations,
+    publications,
+    publicationId,
+    placeholders,
+    oversoldOptions,
+    itemIdStrategies,
+    regenerationIntervals,
+    lastScheduledRun,
+  } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
+  const previewFetcher = useFetcher<typeof action>();
   const shopify = useAppBridge();
 
+  const [titleTemplate, setTitleTemplate] = useState(
+    settings.title_template || "",
+  );
+  const [descriptionTemplate, setDescriptionTemplate] = useState(
+    settings.description_template || "",
+  );
+  const [previewHandle, setPreviewHandle] = useState("");
+  const preview =
+    previewFetcher.data?.action === "preview"
+      ? (previewFetcher.data as any)
+      : null;
+
   const isSaving =
     fetcher.state !== "idle" && fetcher.formData?.get("action") === "save";
   const isSyncing =
     fetcher.state !== "idle" &&
     fetcher.formData?.get("action") === "sync-shopify";
+  const isAddingOverride =
+    fetcher.state !== "idle" &&
+    fetcher.formData?.get("action") === "create-shipping-override";
 
   useEffect(() => {
-    if (fetcher.data?.action === "save" && (fetcher.data as any).success) {
-      shopify.toast.show(
-        "Settings saved! Regenerate your feed to apply changes.",
-      );
+    if (fetcher.data?.action === "save") {
+      if ((fetcher.data as any).success) {
+        shopify.toast.show(
+          "Settings saved! Regenerate your feed to apply changes.",
+        );
+      } else {
+        shopify.toast.show((fetcher.data as any).error, { isError: true });
+      }
     }
     if (
       fetcher.data?.action === "sync-shopify" &&
@@ -85,8 +349,30 @@ export default function Settings() {
     ) {
       shopify.toast.show("Settings synced from Shopify!");
     }
+    if (
+      fetcher.data?.action === "create-shipping-override" &&
+      !(fetcher.data as any).success
+    ) {
+      shopify.toast.show((fetcher.data as any).error, { isError: true });
+    }
   }, [fetcher.data, shopify]);
 
+  // Re-render the preview shortly after the templates stop changing
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      previewFetcher.submit(
+        {
+          action: "preview",
+          title_template: titleTemplate,
+          description_template: descriptionTemplate,
+          handle: previewHandle,
+        },
+        { method: "POST" },
+      );
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [titleTemplate, descriptionTemplate, previewHandle]);
+
   return (
     <s-page heading="Feed Settings">
       <s-link slot={"breadcrumbActions" as Lowercase<string>} href="/app">
@@ -118,6 +404,21 @@ export default function Settings() {
               label="Allow purchases directly inside ChatGPT (requires privacy policy & ToS URLs)"
               {...(settings.enable_checkout ? { checked: true } : {})}
             />
+
+            {publications.length > 0 && (
+              <s-select
+                label="Sales Channel"
+                name="publication_id"
+                details="Only products published to this sales channel are included in the feed"
+                value={publicationId}
+              >
+                {publications.map((publication) => (
+                  <s-option key={publication.id} value={publication.id}>
+                    {publication.name}
+                  </s-option>
+                ))}
+              </s-select>
+            )}
           </s-stack>
         </s-section>
 
@@ -201,6 +502,326 @@ export default function Settings() {
               name="target_countries"
               value={settings.target_countries}
             />
+
+            <s-checkbox
+              name="enable_market_feeds"
+              value="true"
+              label="Generate a separate feed for each Shopify Market with local prices and currency"
+              {...(settings.enable_market_feeds ? { checked: true } : {})}
+            />
+
+            <s-checkbox
+              name="enable_locale_feeds"
+              value="true"
+              label="Generate a translated feed for each published language"
+              {...(settings.enable_locale_feeds ? { checked: true } : {})}
+            />
+          </s-stack>
+        </s-section>
+
+        {/* Item IDs */}
+        <s-section heading="Item IDs">
+          <s-paragraph>
+            <s-text color="subdued">
+              Each variant keeps the ID it was first listed with, even when its
+              SKU or barcode changes. Changing the strategy assigns new IDs to
+              every variant, which resets their history in ChatGPT.
+            </s-text>
+          </s-paragraph>
+
+          <s-select
+            label="Item ID Source"
+            name="item_id_strategy"
+            details="Variants without a SKU or barcode use product ID + variant ID"
+            value={settings.item_id_strategy}
+          >
+            {Object.entries(itemIdStrategies).map(([value, label]) => (
+              <s-option key={value} value={value}>
+                {label}
+              </s-option>
+            ))}
+          </s-select>
+        </s-section>
+
+        {/* Scheduled Regeneration */}
+        <s-section heading="Scheduled Regeneration">
+          <s-paragraph>
+            <s-text color="subdued">
+              Product webhooks miss some changes, such as inventory levels,
+              metafield edits and price rules. The feed is rebuilt from scratch
+              on this schedule to pick them up.
+            </s-text>
+          </s-paragraph>
+
+          <s-select
+            label="Regenerate Feed"
+            name="regeneration_interval"
+            details={
+              lastScheduledRun
+                ? `Last scheduled run: ${new Date(lastScheduledRun.finishedAt).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}${lastScheduledRun.status === "failed" ? " (failed)" : ""}`
+                : "No scheduled run yet"
+            }
+            value={settings.regeneration_interval}
+          >
+            {Object.entries(regenerationIntervals).map(([value, label]) => (
+              <s-option key={value} value={value}>
+                {label}
+              </s-option>
+            ))}
+          </s-select>
+        </s-section>
+
+        {/* Availability */}
+        <s-section heading="Availability">
+          <s-paragraph>
+            <s-text color="subdued">
+              Preorder products need an availability date so ChatGPT can show
+              when they ship. Without a date they are listed by their stock.
+            </s-text>
+          </s-paragraph>
+
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Preorder Tag"
+              name="preorder_tag"
+              placeholder="preorder"
+              details="Products with this tag are listed as preorder when they have an availability date"
+              value={settings.preorder_tag || ""}
+            />
+
+            <s-text-field
+              label="Preorder Metafield"
+              name="preorder_metafield"
+              placeholder="custom.preorder"
+              details="A true/false product or variant metafield, used when the item has an availability date"
+              value={settings.preorder_metafield || ""}
+            />
+
+            <s-text-field
+              label="Availability Date Metafield"
+              name="availability_date_metafield"
+              placeholder="custom.available_on"
+              details="A date product or variant metafield, used for preorder and backorder items"
+              value={settings.availability_date_metafield || ""}
+            />
+
+            <s-select
+              label="Oversold Variants"
+              name="oversold_availability"
+              details="Tracked variants that keep selling when out of stock"
+              value={settings.oversold_availability}
+            >
+              {Object.entries(oversoldOptions).map(([value, label]) => (
+                <s-option key={value} value={value}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+          </s-stack>
+        </s-section>
+
+        {/* Inventory */}
+        <s-section heading="Inventory">
+          <s-stack direction="block" gap="base">
+            <s-number-field
+              label="Safety Stock"
+              name="safety_stock"
+              details="Variants with fewer units than this are listed as out of stock, unless they keep selling when out of stock"
+              value={String(settings.safety_stock)}
+            />
+
+            <s-number-field
+              label="Removed Product Grace Period (days)"
+              name="tombstone_grace_days"
+              details="Deleted, archived or excluded products stay in the feed as out of stock for this long. Use 0 to drop them immediately."
+              value={String(settings.tombstone_grace_days)}
+            />
+
+            {locations.length > 1 && (
+              <s-stack direction="block" gap="small">
+                <s-text type="strong">Fulfillment Locations</s-text>
+                <s-text color="subdued">
+                  Only stock at these locations counts toward the feed. Leave
+                  all unchecked to count every location.
+                </s-text>
+                {locations.map((location) => (
+                  <s-checkbox
+                    key={location.id}
+                    name="inventory_location_ids"
+                    value={location.id}
+                    label={location.name}
+                    {...(settings.inventory_location_ids?.includes(location.id)
+                      ? { checked: true }
+                      : {})}
+                  />
+                ))}
+              </s-stack>
+            )}
+          </s-stack>
+        </s-section>
+
+        {/* Unit Pricing */}
+        <s-section heading="Unit Pricing">
+          <s-paragraph>
+            <s-text color="subdued">
+              Unit prices come from the unit price set on each variant in
+              Shopify. A product metafield can override them.
+            </s-text>
+          </s-paragraph>
+
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Unit Pricing Override Metafield"
+              name="unit_pricing_metafield"
+              placeholder="custom.unit_pricing"
+              details={
+                'A text product metafield such as "750 ml" or "750 ml / 1 l"'
+              }
+              value={settings.unit_pricing_metafield || ""}
+            />
+          </s-stack>
+        </s-section>
+
+        {/* Media */}
+        <s-section heading="Media">
+          <s-stack direction="block" gap="base">
+            <s-number-field
+              label="Minimum Image Resolution (px)"
+              name="image_min_resolution"
+              details="Images smaller than this on their longest side are left out, unless an item has no other image. Use 0 to keep all images."
+              value={String(settings.image_min_resolution)}
+            />
+          </s-stack>
+        </s-section>
+
+        {/* Reviews */}
+        <s-section heading="Product Reviews">
+          <s-paragraph>
+            <s-text color="subdued">
+              Uses Shopify's standard review metafields by default. Change them
+              if your review app stores ratings under its own namespace.
+            </s-text>
+          </s-paragraph>
+
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Rating Metafield"
+              name="review_rating_metafield"
+              placeholder="reviews.rating"
+              value={settings.review_rating_metafield || ""}
+            />
+
+            <s-text-field
+              label="Review Count Metafield"
+              name="review_count_metafield"
+              placeholder="reviews.rating_count"
+              value={settings.review_count_metafield || ""}
+            />
+
+            <s-number-field
+              label="Rating Scale"
+              name="review_rating_scale"
+              details="Highest possible rating, for metafields that store a plain number"
+              value={String(settings.review_rating_scale)}
+            />
+          </s-stack>
+        </s-section>
+
+        {/* Templates */}
+        <s-section heading="Titles & Descriptions">
+          <s-paragraph>
+            <s-text color="subdued">
+              Leave empty to use the product title with the variant options and
+              the Shopify description. Text is shortened to the feed's length
+              limits.
+            </s-text>
+          </s-paragraph>
+
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Title Template"
+              name="title_template"
+              placeholder="{{title}}{{#option.color}} - {{option.color}}{{/option.color}}"
+              value={titleTemplate}
+              onInput={(e) => setTitleTemplate(e.currentTarget.value)}
+            />
+
+            <s-text-area
+              label="Description Template"
+              name="description_template"
+              placeholder="{{description}}{{#vendor}} By {{vendor}}.{{/vendor}}"
+              rows={4}
+              value={descriptionTemplate}
+              onInput={(e) => setDescriptionTemplate(e.currentTarget.value)}
+            />
+
+            <s-unordered-list>
+              {Object.entries(placeholders).map(([placeholder, label]) => (
+                <s-list-item key={placeholder}>
+                  <s-text type="strong">{placeholder}</s-text> {label}
+                </s-list-item>
+              ))}
+              <s-list-item>
+                <s-text type="strong">{"{{#vendor}}…{{/vendor}}"}</s-text> Only
+                shown when the vendor is set. Use{" "}
+                <s-text type="strong">{"{{^vendor}}…{{/vendor}}"}</s-text> for
+                the opposite.
+              </s-list-item>
+            </s-unordered-list>
+
+            <s-text-field
+              label="Preview Product Handle"
+              placeholder="Most recently updated product"
+              value={previewHandle}
+              onInput={(e) => setPreviewHandle(e.currentTarget.value)}
+            />
+
+            <s-box
+              padding="base"
+              borderWidth="base"
+              borderRadius="base"
+              background="subdued"
+            >
+              {preview?.success ? (
+                <s-stack direction="block" gap="base">
+                  {preview.preview.items.map(
+                    (item: {
+                      id: string;
+                      title: string;
+                      description: string;
+                    }) => (
+                      <s-stack key={item.id} direction="block" gap="small">
+                        <s-text type="strong">{item.title}</s-text>
+                        <s-text color="subdued">{item.description}</s-text>
+                      </s-stack>
+                    ),
+                  )}
+                </s-stack>
+              ) : (
+                <s-text color="subdued">
+                  {preview?.error || "Loading preview…"}
+                </s-text>
+              )}
+            </s-box>
+          </s-stack>
+        </s-section>
+
+        {/* Shipping */}
+        <s-section heading="Shipping">
+          <s-paragraph>
+            <s-text color="subdued">
+              Shipping costs are read from your Shopify delivery profiles.
+              Delivery estimates use the transit times of your shipping
+              overrides.
+            </s-text>
+          </s-paragraph>
+
+          <s-stack direction="block" gap="base">
+            <s-number-field
+              label="Handling Time (business days)"
+              name="shipping_handling_days"
+              value={String(settings.shipping_handling_days)}
+            />
           </s-stack>
         </s-section>
 
@@ -216,6 +837,94 @@ export default function Settings() {
         </s-box>
       </fetcher.Form>
 
+      {/* Shipping Overrides */}
+      <s-section heading="Shipping Overrides">
+        <s-paragraph>
+          <s-text color="subdued">
+            Overrides replace the Shopify delivery profile rates for their
+            country.
+          </s-text>
+        </s-paragraph>
+
+        {shippingOverrides.length > 0 && (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Country</s-table-header>
+              <s-table-header>Service</s-table-header>
+              <s-table-header>Price</s-table-header>
+              <s-table-header>Transit (days)</s-table-header>
+              <s-table-header>Actions</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {shippingOverrides.map((override) => (
+                <s-table-row key={override.id}>
+                  <s-table-cell>
+                    {override.country}
+                    {override.region ? ` (${override.region})` : ""}
+                  </s-table-cell>
+                  <s-table-cell>{override.service}</s-table-cell>
+                  <s-table-cell>{override.price.toFixed(2)}</s-table-cell>
+                  <s-table-cell>
+                    {override.max_transit_days !== null
+                      ? `${override.min_transit_days ?? override.max_transit_days}–${override.max_transit_days}`
+                      : "—"}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <fetcher.Form method="POST">
+                      <input
+                        type="hidden"
+                        name="action"
+                        value="delete-shipping-override"
+                      />
+                      <input type="hidden" name="id" value={override.id} />
+                      <s-button type="submit" tone="critical">
+                        Delete
+                      </s-button>
+                    </fetcher.Form>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+
+        <fetcher.Form method="POST">
+          <input type="hidden" name="action" value="create-shipping-override" />
+
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Country Code"
+              name="country"
+              placeholder="US"
+            />
+            <s-text-field label="Region (optional)" name="region" />
+            <s-text-field
+              label="Service"
+              name="service"
+              placeholder="Standard"
+            />
+            <s-number-field label="Price" name="price" />
+            <s-number-field
+              label="Minimum Transit Days"
+              name="min_transit_days"
+            />
+            <s-number-field
+              label="Maximum Transit Days"
+              name="max_transit_days"
+            />
+          </s-stack>
+
+          <s-box padding-block-start="base">
+            <s-button
+              type="submit"
+              {...(isAddingOverride ? { loading: true } : {})}
+            >
+              Add Override
+            </s-button>
+          </s-box>
+        </fetcher.Form>
+      </s-section>
+
       {/* Sync from Shopify */}
       <s-section slot="aside" heading="Sync from Shopify">
         <s-paragraph>
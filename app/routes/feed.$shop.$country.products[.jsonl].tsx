@@ -0,0 +1,25 @@
+/**
+ * Public market feed endpoint: /feed/:shop/:country/products.jsonl
+ *
+ * Serves the cached JSONL feed of the Shopify Market selling to the country,
+ * priced in that market's currency.
+ * No authentication required — this must be publicly accessible for OpenAI to ingest.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { serveCachedFeed } from "../lib/feed-response.server";
+
+export const loader = async ({
+  params,
+  request,
+  context,
+}: LoaderFunctionArgs) => {
+  const country = params.country?.toUpperCase();
+  if (!country || !/^[A-Z]{2}$/.test(country)) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return serveCachedFeed(request, context.cloudflare.env.DB, params.shop, {
+    country,
+  });
+};
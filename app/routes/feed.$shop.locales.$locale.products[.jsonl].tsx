@@ -0,0 +1,25 @@
+/**
+ * Public translated feed endpoint: /feed/:shop/locales/:locale/products.jsonl
+ *
+ * Serves the cached JSONL feed for one of a shop's published languages.
+ * Untranslated fields fall back to the shop's default language.
+ * No authentication required — this must be publicly accessible for OpenAI to ingest.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { serveCachedFeed } from "../lib/feed-response.server";
+
+export const loader = async ({
+  params,
+  request,
+  context,
+}: LoaderFunctionArgs) => {
+  const locale = params.locale;
+  if (!locale || !/^[a-z]{2,3}(-[a-z0-9]{2,4})?$/i.test(locale)) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return serveCachedFeed(request, context.cloudflare.env.DB, params.shop, {
+    locale,
+  });
+};
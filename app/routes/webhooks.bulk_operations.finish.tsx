@@ -0,0 +1,38 @@
+/**
+ * Webhook handler for bulk_operations/finish
+ * Generates the feed once the bulk operation fetching a large catalog is done
+ */
+
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getBulkOperation } from "../lib/feed-bulk-operations.server";
+
+export const action = async ({ request, context }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`[Webhook] Received ${topic} for ${shop}`);
+
+  const db = context.cloudflare.env.DB;
+  const operationId: string = payload.admin_graphql_api_id;
+
+  // Only the latest operation started for the feed is picked up
+  const operation = await getBulkOperation(db, shop);
+  if (
+    operation?.operationId !== operationId ||
+    operation.status !== "running"
+  ) {
+    console.log(
+      `[Webhook] Bulk operation ${operationId} is not a pending feed fetch for ${shop}, skipping`,
+    );
+    return new Response();
+  }
+
+  // Stream and map the result in a queued job
+  await context.cloudflare.env.FEED_JOBS.send({
+    type: "bulk",
+    shop,
+    operationId,
+  });
+
+  return new Response();
+};
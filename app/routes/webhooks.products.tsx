@@ -1,14 +1,14 @@
 /**
  * Webhook handler for products/create, products/update, products/delete
- * Triggers feed regeneration when products change
+ * Queues an update of the changed product's feed items
  */
 
 import type { ActionFunctionArgs } from "react-router";
-import { authenticate, unauthenticated } from "../shopify.server";
-import { generateFeed } from "../lib/feed-service.server";
+import { authenticate } from "../shopify.server";
+import { queueProductChange } from "../lib/feed-queue.server";
 
 export const action = async ({ request, context }: ActionFunctionArgs) => {
-  const { shop, topic } = await authenticate.webhook(request);
+  const { shop, topic, payload } = await authenticate.webhook(request);
 
   console.log(`[Webhook] Received ${topic} for ${shop}`);
 
@@ -27,28 +27,19 @@ export const action = async ({ request, context }: ActionFunctionArgs) => {
     return new Response();
   }
 
-  // Get an admin API client using the offline session token
-  try {
-    const { admin } = await unauthenticated.admin(shop);
-    const ctx = context.cloudflare.ctx;
-
-    // Use waitUntil to regenerate the feed in the background
-    ctx.waitUntil(
-      generateFeed(db, shop, admin).then((result) => {
-        if (result.success) {
-          console.log(
-            `[Webhook] Feed regenerated for ${shop}: ${result.productCount} items`,
-          );
-        } else {
-          console.error(
-            `[Webhook] Feed regeneration failed for ${shop}: ${result.error}`,
-          );
-        }
-      }),
-    );
-  } catch (error) {
-    console.error(`[Webhook] Failed to get admin client for ${shop}:`, error);
-  }
+  // Deleted, draft and archived products leave the feed without being
+  // refetched; others are refetched for the fields the payload lacks
+  const productId = String(payload.id);
+  const removed = topic === "PRODUCTS_DELETE" || payload.status !== "active";
+
+  // Queue the change; changes arriving close together are applied by one job
+  await queueProductChange(
+    db,
+    context.cloudflare.env.FEED_JOBS,
+    shop,
+    productId,
+    removed,
+  );
 
   return new Response();
 };
@@ -0,0 +1,24 @@
+-- Migration: Create feed rules table for product inclusion/exclusion
+
+-- Per-store include/exclude rules, evaluated in position order
+CREATE TABLE IF NOT EXISTS feed_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- 'include' keeps only matching variants, 'exclude' removes matching variants
+  action TEXT NOT NULL,
+  -- tag, vendor, product_type, collection, price, sku, inventory
+  field TEXT NOT NULL,
+  -- equals, contains, matches, gte, lte, between
+  operator TEXT NOT NULL,
+  value TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  -- Variants removed by this rule during the last feed generation
+  excluded_count INTEGER NOT NULL DEFAULT 0,
+  last_evaluated_at INTEGER,
+  -- Timestamps
+  created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_rules_shop ON feed_rules(shop);
@@ -0,0 +1,16 @@
+-- Migration: Create metafield mapping table for custom feed attributes
+
+-- Maps a product or variant metafield onto an OpenAI feed field
+CREATE TABLE IF NOT EXISTS feed_metafield_mappings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  -- 'product' or 'variant'; variant metafields take precedence
+  owner TEXT NOT NULL,
+  namespace TEXT NOT NULL,
+  key TEXT NOT NULL,
+  feed_field TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+  UNIQUE (shop, owner, feed_field)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_metafield_mappings_shop ON feed_metafield_mappings(shop);
@@ -0,0 +1,19 @@
+-- Migration: Create feed issues table for per-item generation warnings
+
+-- Issues found during the latest feed generation (replaced on every run)
+CREATE TABLE IF NOT EXISTS feed_issues (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  variant_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  -- 'error' or 'warning'
+  severity TEXT NOT NULL,
+  field TEXT NOT NULL,
+  code TEXT NOT NULL,
+  message TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_issues_shop ON feed_issues(shop);
@@ -0,0 +1,15 @@
+-- Migration: Create category mapping table for product taxonomy
+
+-- Maps a merchant product type to a Shopify Standard Product Taxonomy path,
+-- used when a product has no Shopify category set
+CREATE TABLE IF NOT EXISTS feed_category_mappings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  product_type TEXT NOT NULL COLLATE NOCASE,
+  -- "Parent > Child > Leaf"
+  category TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+  UNIQUE (shop, product_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_category_mappings_shop ON feed_category_mappings(shop);
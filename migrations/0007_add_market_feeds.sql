@@ -0,0 +1,25 @@
+-- Migration: Per-market feeds keyed by country
+
+ALTER TABLE feed_settings ADD COLUMN enable_market_feeds INTEGER NOT NULL DEFAULT 0;
+
+-- Rebuild feed_cache so each shop can have one feed per country.
+-- country = '' is the primary feed served at /feed/:shop/products.jsonl
+CREATE TABLE IF NOT EXISTS feed_cache_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT '',
+  currency_code TEXT,
+  feed_data TEXT,
+  product_count INTEGER DEFAULT 0,
+  generated_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+  UNIQUE (shop, country)
+);
+
+INSERT INTO feed_cache_new (shop, country, feed_data, product_count, generated_at)
+SELECT shop, '', feed_data, product_count, generated_at FROM feed_cache;
+
+DROP TABLE feed_cache;
+
+ALTER TABLE feed_cache_new RENAME TO feed_cache;
+
+CREATE INDEX IF NOT EXISTS idx_feed_cache_shop ON feed_cache(shop);
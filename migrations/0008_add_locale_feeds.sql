@@ -0,0 +1,26 @@
+-- Migration: Translated feeds keyed by locale
+
+ALTER TABLE feed_settings ADD COLUMN enable_locale_feeds INTEGER NOT NULL DEFAULT 0;
+
+-- Rebuild feed_cache so each shop can also have one feed per locale.
+-- locale = '' is the default language
+CREATE TABLE IF NOT EXISTS feed_cache_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT '',
+  locale TEXT NOT NULL DEFAULT '' COLLATE NOCASE,
+  currency_code TEXT,
+  feed_data TEXT,
+  product_count INTEGER DEFAULT 0,
+  generated_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+  UNIQUE (shop, country, locale)
+);
+
+INSERT INTO feed_cache_new (shop, country, currency_code, feed_data, product_count, generated_at)
+SELECT shop, country, currency_code, feed_data, product_count, generated_at FROM feed_cache;
+
+DROP TABLE feed_cache;
+
+ALTER TABLE feed_cache_new RENAME TO feed_cache;
+
+CREATE INDEX IF NOT EXISTS idx_feed_cache_shop ON feed_cache(shop);
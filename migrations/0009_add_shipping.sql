@@ -0,0 +1,20 @@
+-- Migration: Shipping settings and per-country shipping overrides
+
+-- Business days between order and dispatch, used for delivery estimates
+ALTER TABLE feed_settings ADD COLUMN shipping_handling_days INTEGER NOT NULL DEFAULT 1;
+
+-- Replaces the Shopify delivery profile rates for a country
+CREATE TABLE IF NOT EXISTS feed_shipping_overrides (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  country TEXT NOT NULL,
+  region TEXT,
+  service TEXT NOT NULL,
+  -- In the shop's currency
+  price REAL NOT NULL,
+  min_transit_days INTEGER,
+  max_transit_days INTEGER,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_shipping_overrides_shop ON feed_shipping_overrides(shop);
@@ -0,0 +1,5 @@
+-- Migration: Title and description templates
+
+-- NULL keeps the default title and description
+ALTER TABLE feed_settings ADD COLUMN title_template TEXT;
+ALTER TABLE feed_settings ADD COLUMN description_template TEXT;
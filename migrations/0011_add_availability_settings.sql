@@ -0,0 +1,10 @@
+-- Migration: Preorder and backorder availability settings
+
+-- Products with this tag are listed as preorder
+ALTER TABLE feed_settings ADD COLUMN preorder_tag TEXT;
+-- "namespace.key" of a true/false metafield marking variants or products as preorder
+ALTER TABLE feed_settings ADD COLUMN preorder_metafield TEXT;
+-- "namespace.key" of a date metafield emitted as availability_date
+ALTER TABLE feed_settings ADD COLUMN availability_date_metafield TEXT;
+-- How variants that sell past zero stock are listed: in_stock, backorder, preorder or out_of_stock
+ALTER TABLE feed_settings ADD COLUMN oversold_availability TEXT NOT NULL DEFAULT 'backorder';
@@ -0,0 +1,7 @@
+-- Migration: Low-stock threshold and inventory locations
+
+-- Variants with fewer units than this are listed as out of stock
+ALTER TABLE feed_settings ADD COLUMN safety_stock INTEGER NOT NULL DEFAULT 0;
+-- JSON array of location GIDs whose stock counts toward inventory_quantity
+-- (NULL counts all locations)
+ALTER TABLE feed_settings ADD COLUMN inventory_location_ids TEXT;
@@ -0,0 +1,8 @@
+-- Migration: Product review metafields
+
+-- "namespace.key" of the average rating and review count metafields.
+-- Defaults are Shopify's standard review metafields.
+ALTER TABLE feed_settings ADD COLUMN review_rating_metafield TEXT DEFAULT 'reviews.rating';
+ALTER TABLE feed_settings ADD COLUMN review_count_metafield TEXT DEFAULT 'reviews.rating_count';
+-- Maximum rating for plain number metafields (rating metafields carry their own scale)
+ALTER TABLE feed_settings ADD COLUMN review_rating_scale REAL NOT NULL DEFAULT 5;
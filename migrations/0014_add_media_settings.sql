@@ -0,0 +1,5 @@
+-- Migration: Image resolution setting
+
+-- Longest side in pixels requested from the Shopify CDN; smaller images are
+-- left out of the feed (0 serves original images)
+ALTER TABLE feed_settings ADD COLUMN image_min_resolution INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- Migration: Item ID strategy and stable item IDs
+
+-- How new item IDs are built: sku, variant_id, product_variant_id or barcode
+ALTER TABLE feed_settings ADD COLUMN item_id_strategy TEXT NOT NULL DEFAULT 'sku';
+
+-- The item ID assigned to each variant, kept when its SKU or barcode changes
+CREATE TABLE IF NOT EXISTS feed_item_ids (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  variant_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+  UNIQUE (shop, variant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_item_ids_shop ON feed_item_ids(shop);
@@ -0,0 +1,5 @@
+-- Migration: Unit pricing override metafield
+
+-- "namespace.key" of a product metafield overriding the unit price measure,
+-- e.g. "750 ml" or "750 ml / 1 l"
+ALTER TABLE feed_settings ADD COLUMN unit_pricing_metafield TEXT;
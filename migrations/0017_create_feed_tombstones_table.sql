@@ -0,0 +1,19 @@
+-- Migration: Tombstones for products removed from the feed
+
+-- Days removed items stay in the feed as out of stock (0 drops them at once)
+ALTER TABLE feed_settings ADD COLUMN tombstone_grace_days INTEGER NOT NULL DEFAULT 7;
+
+-- Items that were in a feed but are no longer generated, per feed
+CREATE TABLE IF NOT EXISTS feed_tombstones (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT '',
+  locale TEXT NOT NULL DEFAULT '' COLLATE NOCASE,
+  item_id TEXT NOT NULL,
+  -- The item's last feed row, already marked out of stock
+  item_data TEXT NOT NULL,
+  removed_at INTEGER NOT NULL,
+  UNIQUE (shop, country, locale, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_tombstones_shop ON feed_tombstones(shop);
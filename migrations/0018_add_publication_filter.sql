@@ -0,0 +1,4 @@
+-- Migration: Sales channel publication filter
+
+-- Publication GID products must be published to (NULL uses the Online Store)
+ALTER TABLE feed_settings ADD COLUMN publication_id TEXT;
@@ -0,0 +1,13 @@
+-- Migration: Bulk operations used to fetch large catalogs
+
+-- The latest product bulk operation started for each shop
+CREATE TABLE IF NOT EXISTS feed_bulk_operations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL UNIQUE,
+  operation_id TEXT NOT NULL,
+  -- running, completed or failed
+  status TEXT NOT NULL DEFAULT 'running',
+  error TEXT,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER
+);
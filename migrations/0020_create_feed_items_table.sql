@@ -0,0 +1,23 @@
+-- Migration: Per-item feed rows for incremental generation
+
+-- When products were last fetched (the start of that run), only products
+-- updated since then are fetched next time
+ALTER TABLE feed_settings ADD COLUMN products_synced_at INTEGER;
+-- When the whole catalog was last fetched
+ALTER TABLE feed_settings ADD COLUMN full_rebuild_at INTEGER;
+-- Hash of the settings, rules and mappings used; a change forces a full rebuild
+ALTER TABLE feed_settings ADD COLUMN generation_fingerprint TEXT;
+
+-- The items of each feed, patched per product by incremental generations
+CREATE TABLE IF NOT EXISTS feed_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT '',
+  locale TEXT NOT NULL DEFAULT '' COLLATE NOCASE,
+  product_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  item_data TEXT NOT NULL,
+  UNIQUE (shop, country, locale, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_items_product ON feed_items(shop, country, locale, product_id);
@@ -0,0 +1,25 @@
+-- Migration: Queue-backed feed generation
+
+-- Product changes from webhooks waiting for the shop's next queued job
+CREATE TABLE IF NOT EXISTS feed_pending_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  -- 1 when the product was deleted, drafted or archived
+  removed INTEGER NOT NULL DEFAULT 0,
+  changed_at INTEGER NOT NULL,
+  UNIQUE (shop, product_id)
+);
+
+-- Feed jobs that kept failing and were dead-lettered
+CREATE TABLE IF NOT EXISTS feed_dead_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  -- The queue message, as JSON
+  job TEXT NOT NULL,
+  error TEXT,
+  attempts INTEGER NOT NULL,
+  failed_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_dead_jobs_shop ON feed_dead_jobs(shop);
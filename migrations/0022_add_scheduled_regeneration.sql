@@ -0,0 +1,6 @@
+-- Migration: Scheduled feed regeneration
+
+-- How often the cron trigger regenerates the shop's feeds: hourly, 6h or daily
+ALTER TABLE feed_settings ADD COLUMN regeneration_interval TEXT NOT NULL DEFAULT 'daily';
+-- When the cron trigger last queued a regeneration for the shop
+ALTER TABLE feed_settings ADD COLUMN scheduled_at INTEGER;
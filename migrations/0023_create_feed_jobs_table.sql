@@ -0,0 +1,24 @@
+-- Migration: Feed generation job history
+
+-- One row per feed generation run; a running row locks the shop
+CREATE TABLE IF NOT EXISTS feed_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  -- manual, webhook or cron
+  trigger TEXT NOT NULL,
+  -- running, completed, waiting (for a bulk operation) or failed
+  status TEXT NOT NULL DEFAULT 'running',
+  -- What a running job is doing: fetching, mapping, secondary_feeds or storing
+  stage TEXT,
+  products_fetched INTEGER NOT NULL DEFAULT 0,
+  items_mapped INTEGER NOT NULL DEFAULT 0,
+  -- Skip reason → number of variants left out, as JSON
+  items_skipped TEXT,
+  error TEXT,
+  started_at INTEGER NOT NULL,
+  -- Last progress update; running jobs that stop updating are abandoned
+  heartbeat_at INTEGER NOT NULL,
+  finished_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_jobs_shop ON feed_jobs(shop, status);
@@ -0,0 +1,5 @@
+-- Migration: One feed per market instead of per country
+-- country keeps the market's first country; market_countries lists all of
+-- them (JSON array) so each country's feed URL serves its market's feed
+
+ALTER TABLE feed_cache ADD COLUMN market_countries TEXT;
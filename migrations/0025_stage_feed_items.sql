@@ -0,0 +1,25 @@
+-- Migration: Stage feed item writes and swap them in at once
+-- generation is 0 for the published items; items being written carry their
+-- generation until they are all stored, so a failed write never leaves a
+-- partial feed behind
+
+CREATE TABLE IF NOT EXISTS feed_items_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  shop TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT '',
+  locale TEXT NOT NULL DEFAULT '' COLLATE NOCASE,
+  generation INTEGER NOT NULL DEFAULT 0,
+  product_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  item_data TEXT NOT NULL,
+  UNIQUE (shop, country, locale, generation, item_id)
+);
+
+INSERT INTO feed_items_new (id, shop, country, locale, product_id, item_id, item_data)
+SELECT id, shop, country, locale, product_id, item_id, item_data FROM feed_items;
+
+DROP TABLE feed_items;
+
+ALTER TABLE feed_items_new RENAME TO feed_items;
+
+CREATE INDEX IF NOT EXISTS idx_feed_items_product ON feed_items(shop, country, locale, generation, product_id);
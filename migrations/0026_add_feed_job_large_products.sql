@@ -0,0 +1,4 @@
+-- Migration: Products that needed extra requests in a feed generation run
+
+-- JSON array of the products whose variants or media did not fit in one page
+ALTER TABLE feed_jobs ADD COLUMN large_products TEXT;
@@ -1,5 +1,13 @@
 import { createRequestHandler } from "react-router";
-import { setupShopify } from "../app/shopify.server";
+import { setupShopify, unauthenticated } from "../app/shopify.server";
+import {
+  DEAD_LETTER_QUEUE,
+  processDeadFeedJobs,
+  processFeedJobs,
+  requeueStaleChanges,
+  type FeedJob,
+} from "../app/lib/feed-queue.server";
+import { scheduleFeedRegenerations } from "../app/lib/feed-schedule.server";
 
 declare module "react-router" {
   export interface AppLoadContext {
@@ -29,4 +37,38 @@ export default {
       return new Response("An unexpected error occurred", { status: 500 });
     }
   },
+
+  async queue(batch, env) {
+    setupShopify(env);
+
+    if (batch.queue === DEAD_LETTER_QUEUE) {
+      await processDeadFeedJobs(batch as MessageBatch<FeedJob>, env.DB);
+      return;
+    }
+
+    await processFeedJobs(
+      batch as MessageBatch<FeedJob>,
+      env.DB,
+      env.FEED_JOBS,
+      async (shop) => (await unauthenticated.admin(shop)).admin,
+    );
+  },
+
+  async scheduled(controller, env) {
+    const count = await scheduleFeedRegenerations(
+      env.DB,
+      env.FEED_JOBS,
+      controller.scheduledTime,
+    );
+    console.log(`[Cron] Queued feed regeneration for ${count} shops`);
+
+    const stale = await requeueStaleChanges(
+      env.DB,
+      env.FEED_JOBS,
+      controller.scheduledTime,
+    );
+    if (stale > 0) {
+      console.log(`[Cron] Queued pending product changes for ${stale} shops`);
+    }
+  },
 } satisfies ExportedHandler<Env>;